@@ -0,0 +1,50 @@
+import {CLASSIFY_BATCH_SIZE, classifyAccounts} from '@/ai/flows/classify-accounts';
+import {readCache, writeCache} from '@/lib/cache';
+import {mapWithConcurrency} from '@/lib/concurrency';
+import type {AccountClassification} from '@/lib/segments';
+import type {XProfile} from '@/lib/socialdata';
+
+const CLASSIFY_CONCURRENCY = 2;
+
+/**
+ * Categories for each of `accounts`, in order. Cached classifications (per id_str) are reused;
+ * the rest go to the model in batches and are cached for next time.
+ */
+export async function getAccountClassifications(
+  accounts: XProfile[]
+): Promise<{classifications: AccountClassification[]; cachedCount: number}> {
+  const cached = await Promise.all(accounts.map(account => readCache<AccountClassification>('classifications', account.id_str)));
+  const uncached = accounts.filter((_, index) => !cached[index]);
+
+  const batches: XProfile[][] = [];
+  for (let start = 0; start < uncached.length; start += CLASSIFY_BATCH_SIZE) {
+    batches.push(uncached.slice(start, start + CLASSIFY_BATCH_SIZE));
+  }
+  if (batches.length > 0) {
+    console.log(`Classifying ${uncached.length} accounts in ${batches.length} batch(es); ${accounts.length - uncached.length} cached`);
+  }
+
+  const fresh = new Map<string, AccountClassification>();
+  // Unlike the usual mapWithConcurrency callers, a failed batch should fail the whole request.
+  await mapWithConcurrency(batches, CLASSIFY_CONCURRENCY, async batch => {
+    const results = await classifyAccounts({
+      accounts: batch.map(({id_str, handle, name, bio, followersCount, verified}) => ({id: id_str, handle, name, bio, followersCount, verified})),
+    });
+    const classifiedAt = new Date().toISOString();
+    await Promise.all(results.map(async ({id, categories}) => {
+      const classification: AccountClassification = {id_str: id, categories, classifiedAt};
+      fresh.set(id, classification);
+      await writeCache('classifications', id, classification);
+    }));
+  });
+
+  // Accounts the model skipped count as "other" for now, uncached so the next request retries them.
+  const now = new Date().toISOString();
+  return {
+    classifications: accounts.map((account, index) =>
+      cached[index]?.value ??
+      fresh.get(account.id_str) ?? {id_str: account.id_str, categories: [{category: 'other', confidence: 0}], classifiedAt: now}
+    ),
+    cachedCount: accounts.length - uncached.length,
+  };
+}
@@ -0,0 +1,122 @@
+import {readFile, rm} from 'node:fs/promises';
+import {join} from 'node:path';
+import {afterAll, describe, expect, it, vi} from 'vitest';
+import {fakeEmbed} from '@/ai/embedders';
+import {ai} from '@/ai/genkit';
+import type {StoredAccount} from '@/lib/graph-store';
+import {runWithRequestContext} from '@/lib/request-context';
+import {DEFAULT_PLAN_QUOTAS} from '@/lib/usage';
+import {getDailySeries, getUsageStore, QuotaExceededError, utcDay} from '@/lib/usage-store';
+import {LocalVectorIndex, hashText} from '@/lib/vector-index';
+import {indexBios, MAX_EMBEDS_PER_SEARCH, searchBios} from './bio-search';
+
+// Hoisted above the imports: bios are embedded offline with fakeEmbed and the index is saved
+// to a temporary file. The Google AI plugin still needs some key to initialize.
+const {indexDir} = await vi.hoisted(async () => {
+  const {mkdtemp} = await import('node:fs/promises');
+  const {tmpdir} = await import('node:os');
+  const {join} = await import('node:path');
+  const indexDir = await mkdtemp(join(tmpdir(), 'bio-search-'));
+  process.env.GEMINI_API_KEY ||= 'test';
+  process.env.BIO_EMBEDDER = 'fake';
+  process.env.BIO_INDEX_PATH = join(indexDir, 'bio-index.json');
+  return {indexDir};
+});
+
+afterAll(async () => {
+  await rm(indexDir, {recursive: true, force: true});
+});
+
+const account = (id: string, description: string): StoredAccount =>
+  ({id_str: id, screen_name: `user${id}`, handleLower: `user${id}`, description, updatedAt: 0}) as StoredAccount;
+
+const bios = [
+  account('1', 'Seed investor backing climate founders.'),
+  account('2', 'Pastry chef and food writer.'),
+  account('3', 'Early-stage investor in fintech and climate.'),
+  account('4', ''),
+];
+
+describe('fakeEmbed in a LocalVectorIndex', () => {
+  it('ranks bios sharing words and stems with the query first', () => {
+    const index = new LocalVectorIndex('fake');
+    index.upsert(bios.map(({id_str, description}) => ({id: id_str, vector: fakeEmbed(description ?? ''), textHash: hashText(description ?? '')})));
+
+    const ranked = index.search(fakeEmbed('climate investors'), ['1', '2', '3'], 3).map(({id}) => id);
+    expect(ranked.slice(0, 2).sort()).toEqual(['1', '3']);
+    expect(ranked[2]).toBe('2');
+  });
+
+  it('is deterministic and unit length', () => {
+    expect(fakeEmbed('Seed investor')).toEqual(fakeEmbed('seed INVESTOR'));
+    expect(Math.hypot(...fakeEmbed('Seed investor'))).toBeCloseTo(1);
+  });
+});
+
+describe('searchBios', () => {
+  it('embeds missing bios, ranks them against the query and skips accounts without a bio', async () => {
+    const {matches, searchedCount, pendingCount, embedder} = await searchBios(bios, 'climate investors', 10);
+
+    expect(embedder).toBe('fake');
+    expect(searchedCount).toBe(3);
+    expect(pendingCount).toBe(0);
+    expect(matches.map(({id}) => id).slice(0, 2).sort()).toEqual(['1', '3']);
+    expect(matches.map(({id}) => id)).not.toContain('4');
+  });
+
+  it('embeds only a small batch per search and leaves the rest pending', async () => {
+    const many = Array.from({length: MAX_EMBEDS_PER_SEARCH + 5}, (_, i) => account(`many${i}`, `Angel investor number ${i}.`));
+
+    const first = await searchBios(many, 'angel investor', 5);
+    expect(first.pendingCount).toBe(5);
+    expect(first.searchedCount).toBe(MAX_EMBEDS_PER_SEARCH);
+
+    const second = await searchBios(many, 'angel investor', 5);
+    expect(second.pendingCount).toBe(0);
+  });
+
+  it('meters the embedded bios and the query against the caller', async () => {
+    const context = {uid: 'bio-search-user', email: null, workspaceId: 'bio-search-ws', plan: 'free' as const, requestId: 'r1'};
+    await runWithRequestContext(context, () => searchBios([account('metered', 'Climate investor.')], 'climate', 5));
+
+    const [today] = await getDailySeries({kind: 'user', id: 'bio-search-user'}, 1);
+    expect(today.byResource.embeddings).toBe(2);
+  });
+});
+
+describe('indexBios', () => {
+  it('embeds up to the budget and saves the index after each batch', async () => {
+    const accounts = Array.from({length: 45}, (_, i) => account(`indexed${i}`, `Founder of company ${i}.`));
+
+    const result = await indexBios(accounts, 30);
+    expect(result).toEqual({embedded: 30, pendingCount: 15, embedder: 'fake'});
+
+    const saved = JSON.parse(await readFile(join(indexDir, 'bio-index.fake.json'), 'utf8')) as {entries: {id: string}[]};
+    expect(saved.entries.filter(({id}) => id.startsWith('indexed'))).toHaveLength(30);
+  });
+
+  it('keeps the batches embedded before a failure', async () => {
+    const accounts = Array.from({length: 40}, (_, i) => account(`partial${i}`, `Journalist covering beat ${i}.`));
+    const embedMany = ai.embedMany.bind(ai);
+    const spy = vi.spyOn(ai, 'embedMany')
+      .mockImplementationOnce(embedMany)
+      .mockRejectedValueOnce(new Error('Embedding service unavailable'));
+
+    await expect(indexBios(accounts, 40)).rejects.toThrow('Embedding service unavailable');
+    spy.mockRestore();
+
+    const saved = JSON.parse(await readFile(join(indexDir, 'bio-index.fake.json'), 'utf8')) as {entries: {id: string}[]};
+    expect(saved.entries.filter(({id}) => id.startsWith('partial'))).toHaveLength(20);
+  });
+
+  it('embeds nothing for a caller over quota', async () => {
+    const store = await getUsageStore();
+    await store.increment({kind: 'user', id: 'bio-index-over'}, utcDay(new Date()), 'embeddings', DEFAULT_PLAN_QUOTAS.free.daily!);
+    const context = {uid: 'bio-index-over', email: null, workspaceId: 'bio-index-over-ws', plan: 'free' as const, requestId: 'r2'};
+    const spy = vi.spyOn(ai, 'embedMany');
+
+    await expect(runWithRequestContext(context, () => indexBios([account('unpaid', 'Climate founder.')], 10))).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,104 @@
+import {getBioEmbedder, type BioEmbedder} from '@/ai/embedders';
+import {ai} from '@/ai/genkit';
+import type {StoredAccount} from '@/lib/graph-store';
+import {processSingleton} from '@/lib/process-singleton';
+import {assertWithinQuota, recordUsage} from '@/lib/usage-store';
+import {LocalVectorIndex, hashText, type VectorMatch} from '@/lib/vector-index';
+
+const EMBED_BATCH_SIZE = 20;
+/**
+ * New or changed bios a search embeds itself; the rest wait for the indexing job
+ * (POST /api/semantic-search/index) or later searches.
+ */
+export const MAX_EMBEDS_PER_SEARCH = EMBED_BATCH_SIZE;
+
+/** The index for the current embedder, saved to BIO_INDEX_PATH when that is set. */
+async function getBioIndex(embedderName: string): Promise<LocalVectorIndex> {
+  const index = processSingleton(`bioIndex:${embedderName}`, () => {
+    const basePath = process.env.BIO_INDEX_PATH;
+    // One file per embedder, since their vectors cannot be mixed.
+    const filePath = basePath ? basePath.replace(/(\.json)?$/, `.${embedderName.replace(/[^\w-]/g, '_')}.json`) : undefined;
+    return new LocalVectorIndex(embedderName, filePath);
+  });
+  await index.load();
+  return index;
+}
+
+function bioOf(account: StoredAccount): string {
+  return account.description?.trim() ?? '';
+}
+
+/**
+ * Embeds up to `maxEmbeds` of the bios in `accounts` that are missing from the index or
+ * changed since they were embedded. The quota is checked before each batch, and each batch
+ * is saved and metered as soon as it is embedded, so a failing batch loses only itself.
+ */
+async function embedStaleBios(
+  index: LocalVectorIndex,
+  bioEmbedder: BioEmbedder,
+  accounts: StoredAccount[],
+  maxEmbeds: number
+): Promise<{withBio: StoredAccount[]; embedded: number; pendingCount: number}> {
+  const withBio = accounts.filter(account => bioOf(account));
+  const stale = withBio.filter(account => index.get(account.id_str)?.textHash !== hashText(bioOf(account)));
+  const toEmbed = stale.slice(0, maxEmbeds);
+  if (toEmbed.length > 0) {
+    console.log(`Embedding ${toEmbed.length} bios with ${bioEmbedder.name}; ${withBio.length - stale.length} already indexed`);
+  }
+
+  // Batches run one after another: the Google AI embedder sends one request per bio in a batch.
+  for (let start = 0; start < toEmbed.length; start += EMBED_BATCH_SIZE) {
+    const batch = toEmbed.slice(start, start + EMBED_BATCH_SIZE);
+    await assertWithinQuota();
+    const embeddings = await ai.embedMany({
+      embedder: bioEmbedder.embedder,
+      content: batch.map(bioOf),
+      options: bioEmbedder.documentOptions,
+    });
+    await recordUsage('embeddings', batch.length);
+    index.upsert(batch.map((account, i) => ({id: account.id_str, vector: embeddings[i].embedding, textHash: hashText(bioOf(account))})));
+    await index.save();
+  }
+  return {withBio, embedded: toEmbed.length, pendingCount: stale.length - toEmbed.length};
+}
+
+/**
+ * Embeds bios of `accounts` ahead of searches, at most `maxEmbeds` per call. Meant for the
+ * indexing job, so searches rarely have to embed anything themselves. Metered like any other
+ * embedding: throws QuotaExceededError once the caller has no calls left.
+ */
+export async function indexBios(
+  accounts: StoredAccount[],
+  maxEmbeds: number
+): Promise<{embedded: number; pendingCount: number; embedder: string}> {
+  const bioEmbedder = getBioEmbedder();
+  const index = await getBioIndex(bioEmbedder.name);
+  const {embedded, pendingCount} = await embedStaleBios(index, bioEmbedder, accounts, maxEmbeds);
+  return {embedded, pendingCount, embedder: bioEmbedder.name};
+}
+
+/**
+ * Ranks `accounts` by how similar their bios are to `query`. Up to MAX_EMBEDS_PER_SEARCH
+ * bios missing from the index are embedded first; the rest are reported as pending.
+ * Accounts without a bio are never matched. Throws QuotaExceededError, before embedding
+ * anything, when the caller has no calls left.
+ */
+export async function searchBios(
+  accounts: StoredAccount[],
+  query: string,
+  limit: number
+): Promise<{matches: VectorMatch[]; searchedCount: number; pendingCount: number; embedder: string}> {
+  await assertWithinQuota();
+  const bioEmbedder = getBioEmbedder();
+  const index = await getBioIndex(bioEmbedder.name);
+  const {withBio, pendingCount} = await embedStaleBios(index, bioEmbedder, accounts, MAX_EMBEDS_PER_SEARCH);
+
+  const [queryEmbedding] = await ai.embed({embedder: bioEmbedder.embedder, content: query, options: bioEmbedder.queryOptions});
+  await recordUsage('embeddings', 1);
+  return {
+    matches: index.search(queryEmbedding.embedding, withBio.map(account => account.id_str), limit),
+    searchedCount: withBio.length - pendingCount,
+    pendingCount,
+    embedder: bioEmbedder.name,
+  };
+}
@@ -1 +1,5 @@
 // Flows will be imported for their side effects in this file.
+import '@/ai/flows/answer-graph-question';
+import '@/ai/flows/classify-accounts';
+import '@/ai/flows/draft-intro-request';
+import '@/ai/flows/summarize-following-interests';
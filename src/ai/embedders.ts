@@ -0,0 +1,73 @@
+/**
+ * @fileOverview Embedders for account bios.
+ *
+ * - getBioEmbedder - The embedder selected by BIO_EMBEDDER.
+ * - fakeEmbed - The deterministic vector the offline "fake" embedder returns for a text.
+ */
+
+import {ai} from '@/ai/genkit';
+import {textEmbedding004} from '@genkit-ai/googleai';
+import type {EmbedderArgument} from 'genkit';
+import {normalize} from '@/lib/vector-index';
+
+const FAKE_DIMENSIONS = 256;
+
+/** 32-bit FNV-1a: small, stable across runs and platforms. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashes each word and its character trigrams into signed buckets, so texts sharing words
+ * (or word stems, like "investor" and "investing") score as similar. It has no notion of
+ * meaning: use it for offline tests and development, not to judge search quality.
+ */
+export function fakeEmbed(text: string): number[] {
+  const vector = new Array<number>(FAKE_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    vector[hash % FAKE_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    add(`w:${word}`, 1);
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5);
+  }
+  return normalize(vector);
+}
+
+const fakeBioEmbedder = ai.defineEmbedder(
+  {name: 'fakeBioEmbedder', info: {label: 'Deterministic fake embedder', dimensions: FAKE_DIMENSIONS}},
+  async input => ({embeddings: input.map(document => ({embedding: fakeEmbed(document.text)}))})
+);
+
+export interface BioEmbedder {
+  /** Identifies the vector space; vectors from different embedders are never compared. */
+  name: string;
+  embedder: EmbedderArgument;
+  /** Options for embedding stored bios and search queries respectively. */
+  documentOptions?: Record<string, unknown>;
+  queryOptions?: Record<string, unknown>;
+}
+
+/** Selected with BIO_EMBEDDER=googleai|fake (default: googleai). */
+export function getBioEmbedder(): BioEmbedder {
+  const embedderName = process.env.BIO_EMBEDDER || 'googleai';
+  if (embedderName === 'fake') {
+    return {name: 'fake', embedder: fakeBioEmbedder};
+  }
+  if (embedderName !== 'googleai') {
+    console.warn(`Unknown BIO_EMBEDDER "${embedderName}"; falling back to Google AI embeddings.`);
+  }
+  return {
+    name: textEmbedding004.name,
+    embedder: textEmbedding004,
+    documentOptions: {taskType: 'RETRIEVAL_DOCUMENT'},
+    queryOptions: {taskType: 'RETRIEVAL_QUERY'},
+  };
+}
@@ -0,0 +1,18 @@
+import {GenkitError} from 'genkit';
+import {ApiError} from '@/lib/api-error-response';
+
+/**
+ * Maps Genkit failures (missing API key, output that fails its schema) and Google AI request
+ * errors to AI_UNAVAILABLE; anything else is returned unchanged for `toApiErrorResponse`.
+ * Kept out of api-error-response so routes without AI do not bundle Genkit.
+ */
+export function fromGenkitError(error: unknown): unknown {
+  if (error instanceof GenkitError) {
+    return new ApiError('AI_UNAVAILABLE', error.originalMessage, {status: error.status});
+  }
+  // The Google AI SDK is only a transitive dependency, so its errors are matched by their message prefix.
+  if (error instanceof Error && error.message.startsWith('[GoogleGenerativeAI Error]')) {
+    return new ApiError('AI_UNAVAILABLE', error.message, {status: (error as {status?: number}).status});
+  }
+  return error;
+}
@@ -0,0 +1,66 @@
+import {beforeAll, describe, expect, it, vi} from 'vitest';
+import {defineStubModel} from '@/ai/stub-model';
+import {getFollowGraphStore} from '@/lib/graph-store';
+import type {SocialDataUser} from '@/lib/socialdata';
+import {answerGraphQuestion} from './answer-graph-question';
+
+// Hoisted above the imports: the Google AI plugin needs some key to initialize, but the stub
+// model never calls it.
+vi.hoisted(() => {
+  process.env.GEMINI_API_KEY ||= 'test';
+});
+
+const account = (id: string, handle: string, description: string): SocialDataUser => ({id_str: id, screen_name: handle, name: handle, description, followers_count: Number(id)});
+
+/** Queries the graph on the first turn and answers with `answer` once the tool has replied. */
+function stubModel(name: string, answer: {answer: string; citations: {handle: string; note: string}[]}) {
+  return defineStubModel(name, request => {
+    const queried = request.messages.some(message => message.content.some(part => part.toolResponse));
+    return queried
+      ? JSON.stringify(answer)
+      : [{toolRequest: {name: 'queryFollowGraph', ref: 'q1', input: {followedByAll: ['alice'], bioKeywords: ['fintech']}}}];
+  });
+}
+
+describe('answerGraphQuestion', () => {
+  beforeAll(async () => {
+    const store = (await getFollowGraphStore())!;
+    await store.upsertAccounts([
+      account('1', 'alice', 'Founder.'),
+      account('20', 'bob', 'Fintech investor.'),
+      account('30', 'carol', 'Fintech angel.'),
+      account('40', 'dave', 'Chef.'),
+    ], 1000);
+    await store.replaceEdges('1', 'followings', ['20', '30', '40'], {fetchedAt: 1000, isComplete: true});
+  });
+
+  it('runs the model\'s query against the stored graph and cites what it returned', async () => {
+    const {model, requests} = stubModel('test/graphAnswer', {
+      answer: 'Alice follows two fintech investors: Carol [1] and Bob [2].',
+      citations: [{handle: '@Carol', note: 'Fintech angel'}, {handle: 'bob', note: 'Fintech investor'}],
+    });
+
+    const result = await answerGraphQuestion({question: 'Which fintech investors does @alice follow?'}, {model});
+
+    expect(result.queries).toEqual([{followedByAll: ['alice'], bioKeywords: ['fintech']}]);
+    expect(result.answer).toBe('Alice follows two fintech investors: Carol [1] and Bob [2].');
+    expect(result.citations).toEqual([
+      {index: 1, id: '30', handle: 'carol', categories: [], note: 'Fintech angel'},
+      {index: 2, id: '20', handle: 'bob', categories: [], note: 'Fintech investor'},
+    ]);
+    const toolResponse = requests[1].messages.flatMap(message => message.content).find(part => part.toolResponse);
+    expect((toolResponse?.toolResponse?.output as {matches: {handle: string}[]}).matches.map(match => match.handle)).toEqual(['carol', 'bob']);
+  });
+
+  it('drops citations the tool never returned and renumbers the rest', async () => {
+    const {model} = stubModel('test/graphAnswerInvented', {
+      answer: 'Dave [1] and Carol [2] invest.',
+      citations: [{handle: 'dave', note: 'Not a match'}, {handle: 'carol', note: 'Fintech angel'}],
+    });
+
+    const result = await answerGraphQuestion({question: 'Which fintech investors does @alice follow?'}, {model});
+
+    expect(result.answer).toBe('Dave and Carol [1] invest.');
+    expect(result.citations).toEqual([{index: 1, id: '30', handle: 'carol', categories: [], note: 'Fintech angel'}]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @fileOverview Answers a natural-language question about the stored follow graph by
+ * translating it into structured graph queries, run through the queryFollowGraph tool.
+ *
+ * - answerGraphQuestion - Runs the flow, metered as one generation against the caller's quota
+ *   (classifying accounts for the tool is metered separately). `options.model` overrides the
+ *   model, e.g. with a stub registered through `ai.defineModel` in tests.
+ * - GraphAnswer - The answer, the accounts it cites and the queries it ran.
+ */
+
+import {getAccountClassifications} from '@/ai/account-categories';
+import {ai} from '@/ai/genkit';
+import {GenkitError, z, type MessageData, type ModelArgument} from 'genkit';
+import {getFollowGraphStore, runGraphQuery} from '@/lib/graph-store';
+import {MAX_QUERY_LIMIT, MAX_QUESTION_LENGTH, renumberCitations, type GraphQuery} from '@/lib/graph-questions';
+import {ACCOUNT_CATEGORIES, type AccountCategory} from '@/lib/segments';
+import {meterModelCall} from '@/lib/usage-store';
+
+const GraphQuerySchema = z.object({
+  followedByAll: z.array(z.string()).optional().describe('Handles that must all follow the account (intersection of their followings).'),
+  followingAll: z.array(z.string()).optional().describe('Handles the account must all follow.'),
+  categories: z.array(z.enum(ACCOUNT_CATEGORIES)).optional().describe('Keep accounts in at least one of these categories.'),
+  bioKeywords: z.array(z.string()).optional().describe('Keep accounts whose bio or name contains at least one keyword; include synonyms.'),
+  minFollowers: z.number().int().nonnegative().optional(),
+  maxFollowers: z.number().int().nonnegative().optional(),
+  limit: z.number().int().positive().max(MAX_QUERY_LIMIT).optional(),
+});
+
+const QueryMatchSchema = z.object({
+  id: z.string(),
+  handle: z.string(),
+  name: z.string(),
+  bio: z.string(),
+  followersCount: z.number(),
+  categories: z.array(z.enum(ACCOUNT_CATEGORIES)),
+});
+type QueryMatch = z.infer<typeof QueryMatchSchema>;
+
+const queryFollowGraph = ai.defineTool(
+  {
+    name: 'queryFollowGraph',
+    description:
+      'Finds accounts in the stored follow graph matching every given condition, most followed first. Only accounts from earlier lookups are stored; notes explain gaps.',
+    inputSchema: GraphQuerySchema,
+    outputSchema: z.object({
+      matches: z.array(QueryMatchSchema),
+      totalMatches: z.number(),
+      notes: z.array(z.string()),
+    }),
+  },
+  async query => {
+    const store = await getFollowGraphStore();
+    if (!store) {
+      return {matches: [], totalMatches: 0, notes: ['The follow graph store is turned off, so nothing can be queried.']};
+    }
+    const result = await runGraphQuery(store, query, {
+      categorize: async profiles => {
+        const {classifications} = await getAccountClassifications(profiles);
+        return new Map(classifications.map(classification => [classification.id_str, classification.categories]));
+      },
+    });
+    return {
+      matches: result.matches.map(({profile, categories}) => ({
+        id: profile.id_str,
+        handle: profile.handle,
+        name: profile.name,
+        // Long bios add tokens without helping the model pick matches.
+        bio: profile.bio.slice(0, 200),
+        followersCount: profile.followersCount,
+        categories: (categories ?? []).map(score => score.category),
+      })),
+      totalMatches: result.totalMatches,
+      notes: result.notes,
+    };
+  }
+);
+
+const AnswerGraphQuestionInputSchema = z.object({
+  question: z.string().min(1).max(MAX_QUESTION_LENGTH),
+});
+
+const AnswerSchema = z.object({
+  answer: z.string().describe('A short answer citing accounts as [1], [2], ... in the order of `citations`.'),
+  citations: z.array(
+    z.object({
+      handle: z.string().describe('Handle of an account returned by queryFollowGraph, without @.'),
+      note: z.string().describe('Why this account matches, in a few words.'),
+    })
+  ),
+});
+
+export interface GraphAnswer {
+  answer: string;
+  citations: {index: number; id: string; handle: string; categories: AccountCategory[]; note: string}[];
+  queries: GraphQuery[];
+}
+
+export async function answerGraphQuestion(
+  input: z.infer<typeof AnswerGraphQuestionInputSchema>,
+  options: {model?: ModelArgument} = {}
+): Promise<GraphAnswer> {
+  return meterModelCall(() => answerGraphQuestionFlow(input, {context: {model: options.model}}));
+}
+
+const prompt = ai.definePrompt({
+  name: 'answerGraphQuestionPrompt',
+  input: {schema: AnswerGraphQuestionInputSchema},
+  output: {schema: AnswerSchema},
+  tools: [queryFollowGraph],
+  prompt: `You answer questions about who follows whom on X (Twitter), using only the queryFollowGraph tool.
+
+Translate the question into one or more structured queries. "Followed by both @a and @b" means followedByAll [a, b]; "accounts @a follows" means followedByAll [a]. Map roles to categories (investor, founder, journalist, engineer, brand, other) and topics such as "fintech" or "AI" to bioKeywords with a few synonyms. Handles are given without @.
+
+Then answer in two to four sentences. Cite every account you mention as [n], numbered in the order of your citations list, and cite only accounts the tool returned. If the tool returned notes about missing or truncated data, say what to look up to get a complete answer. If nothing matched, say so plainly.
+
+Question: {{question}}`,
+});
+
+/** Tool calls and results from the conversation, matched up by request order. */
+function collectToolCalls(messages: MessageData[]) {
+  const queries: GraphQuery[] = [];
+  const matches: QueryMatch[] = [];
+  for (const message of messages) {
+    for (const part of message.content) {
+      if (part.toolRequest?.name === 'queryFollowGraph') {
+        queries.push(part.toolRequest.input as GraphQuery);
+      }
+      if (part.toolResponse?.name === 'queryFollowGraph') {
+        matches.push(...((part.toolResponse.output as {matches?: QueryMatch[]})?.matches ?? []));
+      }
+    }
+  }
+  return {queries, matches};
+}
+
+const answerGraphQuestionFlow = ai.defineFlow(
+  {
+    name: 'answerGraphQuestionFlow',
+    inputSchema: AnswerGraphQuestionInputSchema,
+  },
+  async (input, {context}): Promise<GraphAnswer> => {
+    const response = await prompt(input, {model: context?.model as ModelArgument | undefined});
+    if (!response.output) {
+      throw new GenkitError({status: 'INTERNAL', message: 'The model did not return an answer in the expected format.'});
+    }
+
+    const {queries, matches} = collectToolCalls(response.messages);
+    const matchesByHandle = new Map(matches.map(match => [match.handle.toLowerCase(), match]));
+    // Citations the tool never returned are dropped, and the answer's markers renumbered to match.
+    const citations = response.output.citations.flatMap(({handle, note}, position) => {
+      const match = matchesByHandle.get(handle.replace(/^@/, '').toLowerCase());
+      return match ? [{index: position + 1, id: match.id, handle: match.handle, categories: match.categories, note}] : [];
+    });
+    return {...renumberCitations(response.output.answer, citations), queries};
+  }
+);
@@ -0,0 +1,100 @@
+/**
+ * @fileOverview Sorts X accounts into audience segments from their bios.
+ *
+ * - classifyAccounts - Classifies one batch of accounts (at most CLASSIFY_BATCH_SIZE), metered as one
+ *   generation against the caller's quota. Accounts the model skipped are missing from the result.
+ * - ClassifyAccountsInput - The input type for classifyAccounts.
+ * - ClassifiedAccount - One account's categories, most confident first.
+ */
+
+import {ai} from '@/ai/genkit';
+import {GenkitError, z} from 'genkit';
+import {ACCOUNT_CATEGORIES, type CategoryScore} from '@/lib/segments';
+import {meterModelCall} from '@/lib/usage-store';
+
+export const CLASSIFY_BATCH_SIZE = 50;
+
+const ClassifyAccountsInputSchema = z.object({
+  accounts: z
+    .array(
+      z.object({
+        id: z.string(),
+        handle: z.string(),
+        name: z.string(),
+        bio: z.string(),
+        followersCount: z.number(),
+        verified: z.boolean(),
+      })
+    )
+    .min(1)
+    .max(CLASSIFY_BATCH_SIZE),
+});
+export type ClassifyAccountsInput = z.infer<typeof ClassifyAccountsInputSchema>;
+
+const CategoryScoreSchema = z.object({
+  category: z.enum(ACCOUNT_CATEGORIES),
+  confidence: z.number().min(0).max(1),
+});
+
+const ClassifyAccountsOutputSchema = z.object({
+  classifications: z.array(
+    z.object({
+      id: z.string(),
+      categories: z.array(CategoryScoreSchema).min(1).max(3),
+    })
+  ),
+});
+
+export interface ClassifiedAccount {
+  id: string;
+  categories: CategoryScore[];
+}
+
+export async function classifyAccounts(input: ClassifyAccountsInput): Promise<ClassifiedAccount[]> {
+  return meterModelCall(() => classifyAccountsFlow(input));
+}
+
+const prompt = ai.definePrompt({
+  name: 'classifyAccountsPrompt',
+  input: {schema: ClassifyAccountsInputSchema},
+  output: {schema: ClassifyAccountsOutputSchema},
+  prompt: `Classify each X (Twitter) account below into one or more of these categories, judging by its name and bio:
+- investor: VCs, angels, LPs and fund staff
+- founder: founders, co-founders and CEOs of their own company
+- journalist: reporters, editors, writers and newsletter authors covering news or an industry
+- engineer: software, hardware, ML and other engineers and researchers
+- brand: companies, products, media outlets and other organizations rather than people
+- other: anyone else, bots, parody or empty profiles
+
+Give each account up to three categories with a confidence between 0 and 1, most confident first. An empty or vague bio means "other" with low confidence. Return one entry per account, using its id exactly as given.
+
+{{#each accounts}}
+- id {{id}}: {{name}} (@{{handle}}, {{followersCount}} followers{{#if verified}}, verified{{/if}}): {{bio}}
+{{/each}}`,
+});
+
+const classifyAccountsFlow = ai.defineFlow(
+  {
+    name: 'classifyAccountsFlow',
+    inputSchema: ClassifyAccountsInputSchema,
+    outputSchema: z.array(z.object({id: z.string(), categories: z.array(CategoryScoreSchema)})),
+  },
+  async input => {
+    const {output} = await prompt(input);
+    if (!output) {
+      throw new GenkitError({status: 'INTERNAL', message: 'The model did not return classifications in the expected format.'});
+    }
+    const requested = new Set(input.accounts.map(account => account.id));
+    return output.classifications
+      .filter(classification => requested.has(classification.id))
+      .map(({id, categories}) => {
+        const seen = new Set<string>();
+        return {
+          id,
+          categories: [...categories]
+            .sort((a, b) => b.confidence - a.confidence)
+            .filter(score => !seen.has(score.category) && seen.add(score.category)),
+        };
+      });
+  }
+);
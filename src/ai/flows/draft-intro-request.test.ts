@@ -0,0 +1,40 @@
+import {describe, expect, it, vi} from 'vitest';
+import {fromGenkitError} from '@/ai/errors';
+import {defineStubModel} from '@/ai/stub-model';
+import {draftIntroRequest} from './draft-intro-request';
+
+// Hoisted above the imports: the Google AI plugin needs some key to initialize, but the stub
+// model never calls it.
+vi.hoisted(() => {
+  process.env.GEMINI_API_KEY ||= 'test';
+});
+
+const input = {
+  requester: {handle: 'alice', name: 'Alice', bio: 'Building climate software.'},
+  connector: {handle: 'bob', name: 'Bob', bio: 'Angel investor.'},
+  target: {handle: 'carol', name: 'Carol', bio: 'Partner at a climate fund.'},
+  goal: 'Get feedback on our seed round.',
+  tone: 'friendly',
+  length: 'short',
+} as const;
+
+describe('draftIntroRequest', () => {
+  it('fills the prompt from the profiles and the length, and trims the draft', async () => {
+    const {model, requests} = defineStubModel('test/introDraft', () => JSON.stringify({ask: '  Hi Bob, would you ask Carol?  ', blurb: '\nAlice builds climate software.\n'}));
+
+    const draft = await draftIntroRequest(input, {model});
+
+    expect(draft).toEqual({ask: 'Hi Bob, would you ask Carol?', blurb: 'Alice builds climate software.'});
+    const prompt = requests[0].messages.flatMap(message => message.content.map(part => part.text ?? '')).join('\n');
+    expect(prompt).toContain('Requester\'s goal: Get feedback on our seed round.');
+    expect(prompt).toContain('Carol (@carol)');
+    expect(prompt).toContain('At most about 60 words.');
+  });
+
+  it('fails with AI_UNAVAILABLE when the model does not return a draft', async () => {
+    const {model} = defineStubModel('test/introDraftRefusal', () => 'Sorry, I cannot help with that.');
+
+    const error = await draftIntroRequest(input, {model}).catch((e: unknown) => e);
+    expect(fromGenkitError(error)).toMatchObject({code: 'AI_UNAVAILABLE'});
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview Drafts a double-opt-in intro request: a note asking a connector whether they
+ * would check with the target, plus a blurb the connector can forward.
+ *
+ * - draftIntroRequest - Runs the flow, metered as one generation against the caller's quota.
+ *   `options.model` overrides the model, e.g. with a stub registered through `ai.defineModel`
+ *   in tests (the Google AI plugin still needs some GEMINI_API_KEY to initialize, but the
+ *   stub never calls it).
+ * - DraftIntroRequestInput - The input type for draftIntroRequest.
+ */
+
+import {ai} from '@/ai/genkit';
+import {GenkitError, z, type ModelArgument} from 'genkit';
+import {INTRO_LENGTHS, INTRO_TONES, MAX_INTRO_GOAL_LENGTH, type IntroDraft, type IntroLength} from '@/lib/intro-drafts';
+import {meterModelCall} from '@/lib/usage-store';
+
+const IntroProfileSchema = z.object({
+  handle: z.string(),
+  name: z.string(),
+  bio: z.string(),
+});
+
+const DraftIntroRequestInputSchema = z.object({
+  requester: IntroProfileSchema.describe('The person asking for the intro.'),
+  connector: IntroProfileSchema.describe('The mutual contact being asked to make the intro.'),
+  target: IntroProfileSchema.describe('The person the requester wants to meet.'),
+  goal: z.string().min(1).max(MAX_INTRO_GOAL_LENGTH).describe('Why the requester wants to meet the target.'),
+  tone: z.enum(INTRO_TONES),
+  length: z.enum(INTRO_LENGTHS),
+});
+export type DraftIntroRequestInput = z.infer<typeof DraftIntroRequestInputSchema>;
+
+const IntroDraftSchema = z.object({
+  ask: z.string().describe('The message to the connector.'),
+  blurb: z.string().describe('The forwardable note about the requester, written in the requester\'s voice.'),
+});
+
+/** Rough word budgets; the model treats them as guidance rather than hard limits. */
+const WORD_LIMITS: Record<IntroLength, {ask: number; blurb: number}> = {
+  short: {ask: 60, blurb: 50},
+  medium: {ask: 120, blurb: 90},
+  long: {ask: 200, blurb: 140},
+};
+
+export async function draftIntroRequest(
+  input: DraftIntroRequestInput,
+  options: {model?: ModelArgument} = {}
+): Promise<IntroDraft> {
+  return meterModelCall(() => draftIntroRequestFlow(input, {context: {model: options.model}}));
+}
+
+const prompt = ai.definePrompt({
+  name: 'draftIntroRequestPrompt',
+  input: {
+    schema: DraftIntroRequestInputSchema.extend({
+      askWords: z.number(),
+      blurbWords: z.number(),
+    }),
+  },
+  output: {schema: IntroDraftSchema},
+  prompt: `You help people ask for warm introductions on X (Twitter), using the double opt-in etiquette: the connector first checks whether the target wants the intro, and only then introduces them.
+
+Requester: {{requester.name}} (@{{requester.handle}}). Bio: {{requester.bio}}
+Connector: {{connector.name}} (@{{connector.handle}}). Bio: {{connector.bio}}
+Target: {{target.name}} (@{{target.handle}}). Bio: {{target.bio}}
+Requester's goal: {{goal}}
+
+Write two texts in a {{tone}} tone, in the requester's voice:
+1. "ask": a direct message to {{connector.name}} asking whether they would be comfortable checking with {{target.name}} about an intro. Say briefly why {{target.name}}, make it easy to say no, and mention the blurb they can forward. At most about {{askWords}} words.
+2. "blurb": a self-contained note {{connector.name}} can forward to {{target.name}} unchanged: who the requester is, what they want, and why it is worth {{target.name}}'s time. At most about {{blurbWords}} words.
+
+Only use facts from the bios and the goal; do not invent credentials, mutual history or numbers. No subject lines, placeholders or sign-off names in brackets.`,
+});
+
+const draftIntroRequestFlow = ai.defineFlow(
+  {
+    name: 'draftIntroRequestFlow',
+    inputSchema: DraftIntroRequestInputSchema,
+    outputSchema: IntroDraftSchema,
+  },
+  async (input, {context}) => {
+    const limits = WORD_LIMITS[input.length];
+    const {output} = await prompt(
+      {...input, askWords: limits.ask, blurbWords: limits.blurb},
+      {model: context?.model as ModelArgument | undefined}
+    );
+    if (!output) {
+      throw new GenkitError({status: 'INTERNAL', message: 'The model did not return an intro draft in the expected format.'});
+    }
+    return {ask: output.ask.trim(), blurb: output.blurb.trim()};
+  }
+);
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview Summarizes what an account is interested in, judged by who it follows.
+ *
+ * - summarizeFollowingInterests - Runs the flow over an account and a sample of its followings,
+ *   metered against the caller's quota.
+ * - SummarizeFollowingInterestsInput - The input type for summarizeFollowingInterests.
+ * - FollowingInterests - The structured summary it returns.
+ */
+
+import {ai} from '@/ai/genkit';
+import {meterModelCall} from '@/lib/usage-store';
+import {GenkitError, z} from 'genkit';
+
+const FollowedAccountSchema = z.object({
+  handle: z.string(),
+  name: z.string(),
+  bio: z.string(),
+  followersCount: z.number(),
+});
+
+const SummarizeFollowingInterestsInputSchema = z.object({
+  account: z.object({handle: z.string(), name: z.string(), bio: z.string()}),
+  followings: z.array(FollowedAccountSchema).describe('A sample of the accounts it follows, most followed first.'),
+  totalFollowings: z.number().describe('How many accounts it follows in total, sampled or not.'),
+});
+export type SummarizeFollowingInterestsInput = z.infer<typeof SummarizeFollowingInterestsInputSchema>;
+
+const FollowingInterestsSchema = z.object({
+  summary: z.string().describe('Two or three sentences on what this account pays attention to.'),
+  themes: z
+    .array(
+      z.object({
+        name: z.string().describe('Short theme label, e.g. "Developer tools".'),
+        description: z.string().describe('One sentence on what the followings in this theme have in common.'),
+        share: z.number().min(0).max(1).describe('Approximate fraction of the sampled followings in this theme.'),
+        notableAccounts: z.array(z.string()).max(5).describe('Handles (without @) from the sample that best represent the theme.'),
+      }),
+    )
+    .max(6)
+    .describe('The most prominent themes, largest first.'),
+  role: z.string().describe('The role the account most likely has, e.g. "Seed-stage investor".'),
+  industry: z.string().describe('The industry it most likely works in.'),
+  confidence: z.enum(['low', 'medium', 'high']).describe('How strongly the followings support the inferred role and industry.'),
+  rationale: z.string().describe('One sentence citing the evidence for the role and industry.'),
+});
+export type FollowingInterests = z.infer<typeof FollowingInterestsSchema>;
+
+export async function summarizeFollowingInterests(input: SummarizeFollowingInterestsInput): Promise<FollowingInterests> {
+  return meterModelCall(() => summarizeFollowingInterestsFlow(input));
+}
+
+const prompt = ai.definePrompt({
+  name: 'summarizeFollowingInterestsPrompt',
+  input: {schema: SummarizeFollowingInterestsInputSchema},
+  output: {schema: FollowingInterestsSchema},
+  prompt: `You are an analyst who profiles X (Twitter) accounts from the accounts they follow.
+
+Account: @{{account.handle}} ({{account.name}})
+Bio: {{account.bio}}
+
+It follows {{totalFollowings}} accounts. Here is a sample, most followed first:
+{{#each followings}}
+- @{{handle}} ({{name}}, {{followersCount}} followers): {{bio}}
+{{/each}}
+
+Group the sampled followings into at most six themes, largest first, and name up to five notable accounts from the sample for each theme. Then infer the role and industry of @{{account.handle}}, using its own bio as supporting evidence only. Only cite handles that appear in the sample. If the sample is too small or too generic to tell, say so in the rationale and use low confidence.`,
+});
+
+const summarizeFollowingInterestsFlow = ai.defineFlow(
+  {
+    name: 'summarizeFollowingInterestsFlow',
+    inputSchema: SummarizeFollowingInterestsInputSchema,
+    outputSchema: FollowingInterestsSchema,
+  },
+  async input => {
+    const {output} = await prompt(input);
+    if (!output) {
+      throw new GenkitError({status: 'INTERNAL', message: 'The model did not return interests in the expected format.'});
+    }
+    // The model occasionally cites handles it was not given; keep only real ones.
+    const sampled = new Set(input.followings.map(following => following.handle.toLowerCase()));
+    return {
+      ...output,
+      themes: output.themes.map(theme => ({
+        ...theme,
+        notableAccounts: theme.notableAccounts
+          .map(handle => handle.replace(/^@/, ''))
+          .filter(handle => sampled.has(handle.toLowerCase())),
+      })),
+    };
+  }
+);
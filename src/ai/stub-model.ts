@@ -0,0 +1,18 @@
+import type {GenerateRequest, Part} from 'genkit';
+import {ai} from '@/ai/genkit';
+
+/**
+ * Registers a model for flow tests that answers each request with `reply(request)`, a text
+ * reply or the parts of one (e.g. a tool request), and records the requests it was sent.
+ * Pass it as a flow's `options.model`; the Google AI plugin still needs some GEMINI_API_KEY
+ * to initialize, so tests set one in `vi.hoisted`.
+ */
+export function defineStubModel(name: string, reply: (request: GenerateRequest) => string | Part[]) {
+  const requests: GenerateRequest[] = [];
+  const model = ai.defineModel({name, supports: {tools: true}}, async request => {
+    requests.push(request);
+    const answer = reply(request);
+    return {message: {role: 'model', content: typeof answer === 'string' ? [{text: answer}] : answer}, finishReason: 'stop'};
+  });
+  return {model, requests};
+}
@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/require-auth';
+
+// Every page in this group spends SocialData credits, so all of them need a signed-in user.
+export default function AppLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <RequireAuth>{children}</RequireAuth>;
+}
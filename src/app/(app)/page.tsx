@@ -0,0 +1,325 @@
+
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
+import { BatchLookup } from '@/components/batch-lookup';
+import { MutualFollowings } from '@/components/mutual-followings';
+import { IntroPaths } from '@/components/intro-paths';
+import { SnapshotHistory } from '@/components/snapshot-history';
+import { Watchlist } from '@/components/watchlist';
+import { GraphQuestion } from '@/components/graph-question';
+import { SemanticSearch } from '@/components/semantic-search';
+import { FollowingInsights } from '@/components/following-insights';
+import { SegmentedFollowingList } from '@/components/segmented-following-list';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Loader2, Users, AlertCircle } from 'lucide-react';
+import { useCountdown } from '@/hooks/use-countdown';
+import { useToast } from "@/hooks/use-toast";
+import { accountInputFieldSchema, encodeAccountRef, formatAccountRef, parseAccountInput, type AccountRef } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody, type ApiErrorBody, type ApiErrorCode } from '@/lib/api-errors';
+import { readNdjson, type FollowStreamEvent } from '@/lib/follow-stream-events';
+import type { XProfile } from '@/lib/socialdata';
+
+// Rendering thousands of rows at once stalls the page; the count still reflects the full list.
+const DISPLAY_LIMIT = 100;
+
+const searchFormSchema = z.object({ username: accountInputFieldSchema });
+
+type SearchFormValues = z.infer<typeof searchFormSchema>;
+
+const ERROR_TITLES: Partial<Record<ApiErrorCode, string>> = {
+  RATE_LIMITED: "Rate Limited",
+  USER_NOT_FOUND: "User Not Found",
+  PROTECTED_ACCOUNT: "Protected Account",
+  UNAUTHENTICATED: "Sign In Required",
+  QUOTA_EXCEEDED: "Quota Reached",
+};
+
+export default function Home() {
+  const form = useForm<SearchFormValues>({
+    resolver: zodResolver(searchFormSchema),
+    defaultValues: { username: '' },
+  });
+  const username = form.watch('username');
+  const [submittedUsername, setSubmittedUsername] = useState('');
+  const [submittedAccount, setSubmittedAccount] = useState<AccountRef | null>(null);
+  const [followings, setFollowings] = useState<XProfile[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isComplete, setIsComplete] = useState(true);
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ usersSoFar: number; estimatedTotal: number | null } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasSearched, setHasSearched] = useState(false);
+  // Set when a lookup was rate limited; the form stays disabled until it passes.
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const retrySecondsLeft = useCountdown(retryAt);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (hasSearched) {
+      setFollowings([]);
+      setError(null);
+    }
+  }, [username, hasSearched]);
+
+  const handleSubmit = async (values: SearchFormValues) => {
+    const parsed = parseAccountInput(values.username);
+    if (!parsed.ok) return; // Already reported by the resolver.
+    const account = parsed.value;
+    const accountLabel = formatAccountRef(account);
+
+    const showError = (apiError: ApiErrorBody | null, fallback: string) => {
+      const displayError = apiError ? describeApiError(apiError, { account: accountLabel }) : fallback;
+      setError(displayError);
+      const retryAfterSeconds = apiError?.details?.retryAfterSeconds;
+      if (apiError?.code === 'RATE_LIMITED' && typeof retryAfterSeconds === 'number') {
+        setRetryAt(Date.now() + retryAfterSeconds * 1000);
+      }
+      toast({
+        title: (apiError && ERROR_TITLES[apiError.code]) || "Error",
+        description: displayError,
+        variant: "destructive",
+      });
+    };
+
+    setIsLoading(true);
+    setError(null);
+    setRetryAt(null);
+    setFollowings([]);
+    setProgress(null);
+    setSubmittedUsername(accountLabel);
+    setSubmittedAccount(account);
+    setHasSearched(true);
+
+    try {
+      const response = await apiFetch(`/api/get-followings?username=${encodeAccountRef(account)}&stream=ndjson`);
+
+      if (!response.ok) {
+        const data: unknown = await response.json();
+        if (isApiErrorBody(data) && data.code === 'INVALID_REQUEST' && data.details?.field === 'username') {
+          form.setError('username', { message: data.message });
+          return;
+        }
+        showError(isApiErrorBody(data) ? data : null, `An error occurred: ${response.statusText}`);
+        return;
+      }
+
+      let finished = false;
+      for await (const event of readNdjson<FollowStreamEvent>(response)) {
+        switch (event.type) {
+          case 'start':
+            setProgress({ usersSoFar: 0, estimatedTotal: event.estimatedTotal });
+            break;
+          case 'page':
+            setFollowings((previous) => previous.length >= DISPLAY_LIMIT ? previous : [...previous, ...event.users].slice(0, DISPLAY_LIMIT));
+            break;
+          case 'progress':
+            setProgress({ usersSoFar: event.usersSoFar, estimatedTotal: event.estimatedTotal });
+            setTotalCount(event.usersSoFar);
+            break;
+          case 'done':
+            finished = true;
+            setTotalCount(event.totalCount);
+            setIsComplete(event.isComplete);
+            setFetchedAt(event.fetchedAt);
+            if (event.totalCount > 0) {
+              toast({
+                title: "Success!",
+                description: `Fetched ${event.totalCount.toLocaleString()} followings for ${accountLabel}.`,
+              });
+            }
+            break;
+          case 'error':
+            finished = true;
+            showError(event.error, 'The data service stopped responding partway through.');
+            break;
+        }
+      }
+
+      if (!finished) {
+        showError(null, 'The connection closed before all followings were received. Please try again.');
+      }
+    } catch (err: any) {
+      console.error('Client-side fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({
+        title: "Fetch Error",
+        description: clientError,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-start p-4 sm:p-8 md:p-16 bg-background font-sans">
+      <div className="w-full max-w-lg space-y-8">
+        <header className="text-center">
+          <h1 className="text-3xl sm:text-4xl font-bold text-primary tracking-tight">
+            X Following Retriever
+          </h1>
+          <p className="mt-2 text-md sm:text-lg text-muted-foreground">
+            Enter an X username to see their latest public followings.
+          </p>
+        </header>
+
+        <Tabs defaultValue="single" className="space-y-8">
+          <TabsList className="grid w-full grid-cols-7">
+            <TabsTrigger value="single">Single</TabsTrigger>
+            <TabsTrigger value="batch">Batch</TabsTrigger>
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+            <TabsTrigger value="intros">Intros</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="alerts">Alerts</TabsTrigger>
+            <TabsTrigger value="ask">Ask</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="single" className="space-y-8">
+            <Card className="shadow-xl rounded-lg">
+              <CardHeader>
+                <CardTitle className="text-2xl">Find Followings</CardTitle>
+                <CardDescription>
+                  Type an X (formerly Twitter) username or paste a profile link.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="sr-only">X Username</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="text"
+                              placeholder="e.g., elonmusk or x.com/elonmusk"
+                              disabled={isLoading}
+                              className="text-base py-3 px-4"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" className="w-full text-base py-3" disabled={isLoading || retrySecondsLeft > 0 || !username.trim()} variant="default">
+                      {isLoading ? (
+                        <>
+                          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                          Fetching...
+                        </>
+                      ) : (
+                        <>
+                          <Users className="mr-2 h-5 w-5" />
+                          Get Followings
+                        </>
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            {error && (
+              <Alert variant="destructive" className="shadow-lg rounded-lg">
+                <AlertCircle className="h-5 w-5" />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>
+                  {error}
+                  {retryAt !== null && (
+                    <span className="block mt-1 font-medium" aria-live="polite">
+                      {retrySecondsLeft > 0 ? `You can try again in ${retrySecondsLeft}s.` : 'You can try again now.'}
+                    </span>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {isLoading && progress && (
+              <div className="space-y-2" aria-live="polite">
+                <Progress value={progress.estimatedTotal ? Math.min(100, (progress.usersSoFar / progress.estimatedTotal) * 100) : undefined} />
+                <p className="text-sm text-muted-foreground text-center">
+                  Fetched {progress.usersSoFar.toLocaleString()}
+                  {progress.estimatedTotal ? ` of ~${progress.estimatedTotal.toLocaleString()}` : ''} followings...
+                </p>
+              </div>
+            )}
+
+            {hasSearched && !error && followings.length > 0 && (
+              <Card className="shadow-xl rounded-lg">
+                <CardHeader>
+                  <CardTitle className="text-xl">Followings for {submittedUsername}</CardTitle>
+                  <CardDescription>
+                    Showing {followings.length} of {totalCount.toLocaleString()} most recent public followings.
+                    {!isComplete && ' The full list was truncated by the server page limit.'}
+                    {fetchedAt && ` Data as of ${new Date(fetchedAt).toLocaleString()}.`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SegmentedFollowingList key={submittedUsername} followings={followings} disabled={isLoading} />
+                </CardContent>
+              </Card>
+            )}
+
+            {hasSearched && !isLoading && !error && followings.length > 0 && submittedAccount && (
+              <FollowingInsights key={encodeAccountRef(submittedAccount)} account={submittedAccount} />
+            )}
+         
+            {hasSearched && !isLoading && !error && followings.length === 0 && (
+              <Card className="shadow-xl rounded-lg">
+                <CardHeader>
+                  <CardTitle className="text-xl">No Results</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground">
+                    No public followings found for {submittedUsername}, or their followings are private/empty.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="batch">
+            <BatchLookup />
+          </TabsContent>
+
+          <TabsContent value="compare">
+            <MutualFollowings />
+          </TabsContent>
+
+          <TabsContent value="intros">
+            <IntroPaths />
+          </TabsContent>
+
+          <TabsContent value="history">
+            <SnapshotHistory />
+          </TabsContent>
+
+          <TabsContent value="alerts">
+            <Watchlist />
+          </TabsContent>
+
+          <TabsContent value="ask" className="space-y-8">
+            <SemanticSearch />
+            <GraphQuestion />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Progress } from '@/components/ui/progress';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import { UPSTREAM_RESOURCES, type DailyUsage, type QuotaStatus, type UsageResponse } from '@/lib/usage';
+
+const RESOURCE_CHART_CONFIG = {
+  user: { label: 'Profiles', color: 'hsl(var(--chart-1))' },
+  followings: { label: 'Followings', color: 'hsl(var(--chart-2))' },
+  followers: { label: 'Followers', color: 'hsl(var(--chart-3))' },
+  other: { label: 'Other', color: 'hsl(var(--chart-4))' },
+  embeddings: { label: 'Embeddings', color: 'hsl(var(--chart-5))' },
+  generations: { label: 'AI generations', color: 'hsl(var(--chart-6))' },
+} satisfies ChartConfig;
+
+const WORKSPACE_CHART_CONFIG = {
+  calls: { label: 'Workspace calls', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+/** Flattens `byResource` so each resource can be its own stacked bar. */
+function toChartRows(daily: DailyUsage[]) {
+  return daily.map((usage) => ({
+    day: usage.day.slice(5),
+    calls: usage.calls,
+    ...Object.fromEntries(UPSTREAM_RESOURCES.map((resource) => [resource, usage.byResource[resource] ?? 0])),
+  }));
+}
+
+function QuotaBar({ quota }: { quota: QuotaStatus }) {
+  const label = quota.period === 'daily' ? 'Today' : 'This month';
+  const percent = quota.limit ? Math.min(100, (quota.used / quota.limit) * 100) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-muted-foreground">
+          {quota.used.toLocaleString()} / {quota.limit === null ? 'unlimited' : quota.limit.toLocaleString()} calls
+        </span>
+      </div>
+      {quota.limit !== null && <Progress value={percent} aria-label={`${label} quota used`} />}
+      <p className="text-xs text-muted-foreground">Resets {new Date(quota.resetsAt).toLocaleString()}</p>
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        const response = await apiFetch('/api/usage');
+        const data: unknown = await response.json();
+        if (!response.ok) {
+          setError(isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`);
+          return;
+        }
+        setUsage(data as UsageResponse);
+      } catch (err: any) {
+        console.error('Client-side usage fetch error:', err);
+        setError(err.message || 'An unexpected error occurred. Please check your network connection and try again.');
+      }
+    };
+    void loadUsage();
+  }, []);
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-start p-4 sm:p-8 md:p-16 bg-background font-sans">
+      <div className="w-full max-w-2xl space-y-8">
+        <header className="text-center">
+          <h1 className="text-4xl font-bold text-primary">Usage</h1>
+          <p className="text-muted-foreground mt-2">SocialData and embedding calls made on your behalf over the last 30 days.</p>
+        </header>
+
+        {error && (
+          <Alert variant="destructive" className="shadow-lg rounded-lg">
+            <AlertCircle className="h-5 w-5" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!usage && !error && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {usage && (
+          <>
+            <Card className="shadow-xl rounded-lg">
+              <CardHeader>
+                <CardTitle className="text-xl flex items-center gap-2">
+                  Quotas
+                  <Badge variant="secondary" className="capitalize">{usage.plan} plan</Badge>
+                </CardTitle>
+                <CardDescription>Lookups stop with a quota error once any limit is reached.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {usage.user.quotas.map((quota) => <QuotaBar key={quota.period} quota={quota} />)}
+                {usage.workspace.id !== usage.user.id && (
+                  <div className="space-y-4 border-t pt-4">
+                    <p className="text-sm text-muted-foreground">Shared by everyone in workspace {usage.workspace.id}:</p>
+                    {usage.workspace.quotas.map((quota) => <QuotaBar key={quota.period} quota={quota} />)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-xl rounded-lg">
+              <CardHeader>
+                <CardTitle className="text-xl">Your calls per day</CardTitle>
+                <CardDescription>By upstream resource, in UTC days.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={RESOURCE_CHART_CONFIG} className="h-64 w-full">
+                  <BarChart data={toChartRows(usage.user.daily)}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {UPSTREAM_RESOURCES.map((resource) => (
+                      <Bar key={resource} dataKey={resource} stackId="calls" fill={`var(--color-${resource})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {usage.workspace.id !== usage.user.id && (
+              <Card className="shadow-xl rounded-lg">
+                <CardHeader>
+                  <CardTitle className="text-xl">Workspace calls per day</CardTitle>
+                  <CardDescription>Everyone in workspace {usage.workspace.id}.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={WORKSPACE_CHART_CONFIG} className="h-48 w-full">
+                    <BarChart data={toChartRows(usage.workspace.daily)}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="calls" fill="var(--color-calls)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getRequestContext } from '@/lib/request-context';
+import { getWatchlistStore } from '@/lib/watchlist-store';
+
+const markReadSchema = z.object({ ids: z.array(z.string()).max(500).optional() });
+
+/** POST /api/alerts/read {"ids": [...]}: marks those of the caller's alerts read, or all of them without `ids`. */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiErrorResponse('INVALID_REQUEST', 'Request body must be JSON.');
+  }
+  const parsed = markReadSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiErrorResponse('INVALID_REQUEST', 'ids must be a list of alert ids.', { issues: parsed.error.issues });
+  }
+
+  const { uid } = getRequestContext()!;
+  try {
+    const store = await getWatchlistStore();
+    await store.markRead(uid, parsed.data.ids);
+    return NextResponse.json({ unreadCount: await store.countUnread(uid) });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+});
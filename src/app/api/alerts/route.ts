@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getRequestContext } from '@/lib/request-context';
+import type { AlertsResponse } from '@/lib/watchlist';
+import { getWatchlistStore } from '@/lib/watchlist-store';
+
+const DEFAULT_ALERT_LIMIT = 50;
+const MAX_ALERT_LIMIT = 500;
+
+/** GET /api/alerts[?unread=1][&limit=50]: the caller's notification feed, newest first. */
+export const GET = withAuth(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const rawLimit = searchParams.get('limit');
+  const limit = rawLimit ? Number(rawLimit) : DEFAULT_ALERT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ALERT_LIMIT) {
+    return apiErrorResponse('INVALID_REQUEST', `limit must be an integer between 1 and ${MAX_ALERT_LIMIT}.`, { field: 'limit' });
+  }
+
+  const { uid } = getRequestContext()!;
+  try {
+    const store = await getWatchlistStore();
+    const [alerts, unreadCount] = await Promise.all([
+      store.listAlerts(uid, { limit, unreadOnly: searchParams.get('unread') === '1' }),
+      store.countUnread(uid),
+    ]);
+    const response: AlertsResponse = { alerts, unreadCount };
+    return NextResponse.json(response);
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+});
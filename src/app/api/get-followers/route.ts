@@ -0,0 +1,7 @@
+import type { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/auth-guard';
+import { handleFollowListRequest } from '@/lib/follow-list';
+
+export const GET = withAuth(async (request: NextRequest) => {
+  return handleFollowListRequest(request, 'followers');
+});
@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { accountRefCacheKey, parseAccountInput } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorBody, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { MAX_BATCH_SIZE, type BatchItemResult, type BatchResponse } from '@/lib/batch';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { HARD_MAX_PAGES, HARD_MAX_USERS, loadFollowList, toFollowListBody } from '@/lib/follow-list';
+
+const BATCH_CONCURRENCY = 4;
+
+// Batches default to shallower walks than the single route so 200 handles stay affordable.
+const batchRequestSchema = z.object({
+  usernames: z.array(z.string()).min(1).max(MAX_BATCH_SIZE),
+  includeProfiles: z.boolean().default(false),
+  maxPages: z.number().int().positive().max(HARD_MAX_PAGES).default(10),
+  maxUsers: z.number().int().positive().max(HARD_MAX_USERS).default(2000),
+  refresh: z.boolean().default(false),
+});
+
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiErrorResponse('INVALID_REQUEST', 'Request body must be JSON.');
+  }
+
+  const parsed = batchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiErrorResponse('INVALID_REQUEST', `Invalid batch request: expected 1-${MAX_BATCH_SIZE} usernames.`, { issues: parsed.error.issues });
+  }
+  const { usernames, includeProfiles, maxPages, maxUsers, refresh } = parsed.data;
+
+  let provider;
+  try {
+    provider = await getFollowGraphProvider();
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+
+  // Repeated handles share one pipeline run; results still line up with the inputs.
+  const runs = new Map<string, Promise<BatchItemResult>>();
+  console.log(`Processing batch of ${usernames.length} usernames (concurrency ${BATCH_CONCURRENCY}).`);
+
+  const results = await mapWithConcurrency(usernames, BATCH_CONCURRENCY, async (input) => {
+    const account = parseAccountInput(input);
+    if (!account.ok) {
+      return { input, ok: false, error: { code: 'INVALID_REQUEST', message: account.error, retryable: false, details: { field: 'username' } } } satisfies BatchItemResult;
+    }
+    const runKey = accountRefCacheKey(account.value);
+
+    let run = runs.get(runKey);
+    if (!run) {
+      run = loadFollowList(provider, account.value, 'followings', { maxPages, maxUsers }, { refresh })
+        .then((result) => ({ input, ok: true, ...toFollowListBody('followings', result, includeProfiles) }) as BatchItemResult)
+        .catch((error): BatchItemResult => ({ input, ok: false, error: toApiErrorBody(error) }));
+      runs.set(runKey, run);
+    }
+    return { ...(await run), input };
+  });
+
+  const succeeded = results.filter((result) => result.ok).length;
+  console.log(`Batch complete: ${succeeded} succeeded, ${results.length - succeeded} failed.`);
+
+  const response: BatchResponse = {
+    results,
+    summary: { requested: usernames.length, succeeded, failed: results.length - succeeded },
+  };
+  return NextResponse.json(response);
+});
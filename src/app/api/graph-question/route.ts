@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { fromGenkitError } from '@/ai/errors';
+import { answerGraphQuestion } from '@/ai/flows/answer-graph-question';
+import { ApiError, apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { MAX_QUESTION_LENGTH, renumberCitations, type GraphAnswerResponse } from '@/lib/graph-questions';
+import { getFollowGraphStore } from '@/lib/graph-store';
+import { toProfile } from '@/lib/socialdata';
+
+const graphQuestionSchema = z.object({
+  question: z.string().trim().min(1).max(MAX_QUESTION_LENGTH),
+});
+
+/** POST /api/graph-question {"question": "fintech investors followed by both @alice and @bob"} */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiErrorResponse('INVALID_REQUEST', 'Request body must be JSON.');
+  }
+  const parsed = graphQuestionSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiErrorResponse('INVALID_REQUEST', `Ask a question of at most ${MAX_QUESTION_LENGTH} characters.`, { field: 'question' });
+  }
+  const { question } = parsed.data;
+
+  try {
+    const store = await getFollowGraphStore();
+    if (!store) {
+      throw new ApiError('CONFIG_MISSING', 'Answering questions needs the follow graph store (FOLLOW_GRAPH_STORE is off).');
+    }
+    // Questions can name people and intentions, so only their length is logged.
+    console.log(`Answering a graph question of ${question.length} characters.`);
+    const answer = await answerGraphQuestion({ question });
+
+    const accounts = await store.getAccounts(answer.citations.map((citation) => citation.id));
+    const profiles = new Map(accounts.map((account) => [account.id_str, toProfile(account)]));
+    // An account can disappear from the store between the query and here; its marker goes with it.
+    const stored = answer.citations.flatMap(({ index, id, categories, note }) => {
+      const profile = profiles.get(id);
+      return profile ? [{ index, profile, categories, note }] : [];
+    });
+    const response: GraphAnswerResponse = {
+      question,
+      ...renumberCitations(answer.answer, stored),
+      queries: answer.queries,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn('Graph question failed:', (error as Error)?.message);
+    return toApiErrorResponse(fromGenkitError(error));
+  }
+});
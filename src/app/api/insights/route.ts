@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { fromGenkitError } from '@/ai/errors';
+import { summarizeFollowingInterests, type FollowingInterests } from '@/ai/flows/summarize-following-interests';
+import { formatAccountRef, parseAccountInput } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { withCache } from '@/lib/cache';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { INVALID_PAGINATION_MESSAGE, loadFollowList, parsePaginationLimits } from '@/lib/follow-list';
+import { MAX_INSIGHT_SAMPLE, type InsightsResponse } from '@/lib/insights';
+import { toProfile, type XProfile } from '@/lib/socialdata';
+
+/** Accounts with a bio say the most about a theme; among those, the most followed come first. */
+function sampleFollowings(followings: XProfile[]): XProfile[] {
+  return [...followings]
+    .sort((a, b) => Number(Boolean(b.bio)) - Number(Boolean(a.bio)) || b.followersCount - a.followersCount)
+    .slice(0, MAX_INSIGHT_SAMPLE);
+}
+
+/** GET /api/insights?username=alice[&refresh=1]: an AI summary of what the accounts alice follows say about their interests. */
+export const GET = withAuth(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const rawUsername = searchParams.get('username');
+  if (!rawUsername) {
+    return apiErrorResponse('INVALID_REQUEST', 'Username is required.', { field: 'username' });
+  }
+  const account = parseAccountInput(rawUsername);
+  if (!account.ok) {
+    return apiErrorResponse('INVALID_REQUEST', account.error, { field: 'username' });
+  }
+
+  const limits = parsePaginationLimits(searchParams);
+  if (!limits) {
+    return apiErrorResponse('INVALID_REQUEST', INVALID_PAGINATION_MESSAGE);
+  }
+  const refresh = searchParams.get('refresh') === '1';
+
+  try {
+    const provider = await getFollowGraphProvider();
+    // Same limits as the results page, so right after a lookup this is a cache hit.
+    const { user, list } = await loadFollowList(provider, account.value, 'followings', limits);
+    const profile = toProfile(user);
+    const followings = list.users.map(toProfile);
+    if (followings.length === 0) {
+      return apiErrorResponse('INVALID_REQUEST', `@${profile.handle} does not follow anyone, so there is nothing to summarize.`);
+    }
+
+    const sample = sampleFollowings(followings);
+    console.log(`Summarizing interests of ${formatAccountRef(account.value)} from ${sample.length} of ${followings.length} followings`);
+    const generated = await withCache<FollowingInterests>(
+      'insights',
+      `${provider.name}:${user.id_str}:${limits.maxPages}:${limits.maxUsers}`,
+      () => summarizeFollowingInterests({
+        account: { handle: profile.handle, name: profile.name, bio: profile.bio },
+        followings: sample.map(({ handle, name, bio, followersCount }) => ({ handle, name, bio, followersCount })),
+        totalFollowings: followings.length,
+      }),
+      { refresh },
+    );
+
+    const byHandle = new Map(sample.map((following) => [following.handle.toLowerCase(), following]));
+    const response: InsightsResponse = {
+      account: profile,
+      insights: {
+        ...generated.value,
+        themes: generated.value.themes.map((theme) => ({
+          ...theme,
+          notableAccounts: theme.notableAccounts.flatMap((handle) => byHandle.get(handle.toLowerCase()) ?? []),
+        })),
+      },
+      sampledCount: sample.length,
+      totalCount: followings.length,
+      isComplete: list.isComplete,
+      generatedAt: new Date(generated.fetchedAt).toISOString(),
+    };
+    return NextResponse.json(response, { headers: { 'X-Cache': generated.status } });
+  } catch (error) {
+    console.warn(`Insights for ${formatAccountRef(account.value)} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(fromGenkitError(error));
+  }
+});
@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { fromGenkitError } from '@/ai/errors';
+import { draftIntroRequest } from '@/ai/flows/draft-intro-request';
+import { formatAccountRef, parseAccountInput, type AccountRef } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { lookupAccount } from '@/lib/follow-list';
+import { INTRO_LENGTHS, INTRO_TONES, MAX_INTRO_GOAL_LENGTH, type IntroDraftResponse } from '@/lib/intro-drafts';
+import { toProfile } from '@/lib/socialdata';
+
+const ACCOUNT_FIELDS = ['requester', 'connector', 'target'] as const;
+
+const introDraftRequestSchema = z.object({
+  requester: z.string(),
+  connector: z.string(),
+  target: z.string(),
+  goal: z.string().trim().min(1).max(MAX_INTRO_GOAL_LENGTH),
+  tone: z.enum(INTRO_TONES).default('friendly'),
+  length: z.enum(INTRO_LENGTHS).default('medium'),
+});
+
+/**
+ * POST /api/intro-draft {"requester", "connector", "target", "goal", "tone"?, "length"?}
+ * Profiles come from the lookup cache, so drafting right after an intro-path search costs no upstream calls.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiErrorResponse('INVALID_REQUEST', 'Request body must be JSON.');
+  }
+  const parsed = introDraftRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiErrorResponse('INVALID_REQUEST', `Provide the three accounts and a goal of at most ${MAX_INTRO_GOAL_LENGTH} characters.`, { issues: parsed.error.issues });
+  }
+
+  const accounts: AccountRef[] = [];
+  for (const field of ACCOUNT_FIELDS) {
+    const account = parseAccountInput(parsed.data[field]);
+    if (!account.ok) {
+      return apiErrorResponse('INVALID_REQUEST', account.error, { field });
+    }
+    accounts.push(account.value);
+  }
+  const { goal, tone, length } = parsed.data;
+
+  try {
+    const provider = await getFollowGraphProvider();
+    const [requester, connector, target] = await Promise.all(
+      // Only profile fields are needed, so protected accounts can be drafted for too.
+      accounts.map(async (account) => toProfile((await lookupAccount(provider, account)).user)),
+    );
+    console.log(`Drafting intro request from ${requester.handle} via ${connector.handle} to ${target.handle} (${tone}, ${length})`);
+    const draft = await draftIntroRequest({
+      requester: { handle: requester.handle, name: requester.name, bio: requester.bio },
+      connector: { handle: connector.handle, name: connector.name, bio: connector.bio },
+      target: { handle: target.handle, name: target.name, bio: target.bio },
+      goal,
+      tone,
+      length,
+    });
+    const response: IntroDraftResponse = { requester, connector, target, draft };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn(`Intro draft via ${formatAccountRef(accounts[1])} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(fromGenkitError(error));
+  }
+});
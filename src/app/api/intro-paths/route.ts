@@ -0,0 +1,181 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { accountRefCacheKey, formatAccountRef, parseAccountInput, type AccountRef } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { getFollowGraphProvider, type FollowGraphProvider } from '@/lib/follow-graph';
+import { INVALID_PAGINATION_MESSAGE, loadFollowList, parsePaginationLimits } from '@/lib/follow-list';
+import {
+  findThreeHopPaths,
+  findTwoHopPaths,
+  rankTeamNeighbours,
+  type AccountNetwork,
+  type IntroAccount,
+} from '@/lib/graph/intro-paths';
+import {
+  DEFAULT_INTERMEDIATES,
+  MAX_INTERMEDIATES,
+  MAX_RETURNED_PATHS,
+  MAX_TEAM_SIZE,
+  type IntroPathsResponse,
+} from '@/lib/intro-paths';
+import { toProfile, type PaginationLimits, type SocialDataUser } from '@/lib/socialdata';
+
+const INTERMEDIATE_CONCURRENCY = 4;
+
+function parseAccounts(values: string[], field: string): { accounts: AccountRef[] } | { error: string } {
+  const accounts: AccountRef[] = [];
+  for (const value of values) {
+    const account = parseAccountInput(value);
+    if (!account.ok) return { error: `${value}: ${account.error}` };
+    accounts.push(account.value);
+  }
+  return accounts.length > 0 ? { accounts } : { error: `${field} is required.` };
+}
+
+async function loadNetwork(provider: FollowGraphProvider, account: AccountRef, limits: PaginationLimits, refresh: boolean) {
+  const [followings, followers] = await Promise.all([
+    loadFollowList(provider, account, 'followings', limits, { refresh }),
+    loadFollowList(provider, account, 'followers', limits, { refresh }),
+  ]);
+  const network: AccountNetwork = {
+    id: followings.user.id_str,
+    handle: followings.user.screen_name,
+    followings: new Set(followings.list.users.map((user) => user.id_str)),
+    followers: new Set(followers.list.users.map((user) => user.id_str)),
+  };
+  return {
+    user: followings.user,
+    network,
+    users: [...followings.list.users, ...followers.list.users],
+    isComplete: followings.list.isComplete && followers.list.isComplete,
+  };
+}
+
+/**
+ * GET /api/intro-paths?from=me[&from=teammate]&target=them[&hops=3][&maxIntermediates=10]
+ *
+ * 2-hop paths need the followings and followers of every team member and of the target.
+ * 3-hop paths additionally fetch the followings of the best-connected accounts around the
+ * team (`maxIntermediates` of them), so they cost one extra list call each.
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+
+  const fromValues = searchParams.getAll('from').flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+  if (fromValues.length > MAX_TEAM_SIZE) {
+    return apiErrorResponse('INVALID_REQUEST', `At most ${MAX_TEAM_SIZE} team handles are supported.`, { field: 'from' });
+  }
+  const team = parseAccounts(fromValues, 'from');
+  if ('error' in team) {
+    return apiErrorResponse('INVALID_REQUEST', team.error, { field: 'from' });
+  }
+  const target = parseAccounts([searchParams.get('target') ?? ''].filter(Boolean), 'target');
+  if ('error' in target) {
+    return apiErrorResponse('INVALID_REQUEST', target.error, { field: 'target' });
+  }
+  const targetAccount = target.accounts[0];
+  if (team.accounts.some((account) => accountRefCacheKey(account) === accountRefCacheKey(targetAccount))) {
+    return apiErrorResponse('INVALID_REQUEST', 'The target cannot also be on the team.', { field: 'target' });
+  }
+
+  const hops = searchParams.get('hops') ?? '2';
+  if (hops !== '2' && hops !== '3') {
+    return apiErrorResponse('INVALID_REQUEST', 'hops must be 2 or 3.', { field: 'hops' });
+  }
+  const maxIntermediates = Number(searchParams.get('maxIntermediates') ?? DEFAULT_INTERMEDIATES);
+  if (!Number.isInteger(maxIntermediates) || maxIntermediates < 1 || maxIntermediates > MAX_INTERMEDIATES) {
+    return apiErrorResponse('INVALID_REQUEST', `maxIntermediates must be an integer between 1 and ${MAX_INTERMEDIATES}.`, { field: 'maxIntermediates' });
+  }
+  const limits = parsePaginationLimits(searchParams);
+  if (!limits) {
+    return apiErrorResponse('INVALID_REQUEST', INVALID_PAGINATION_MESSAGE);
+  }
+  const refresh = searchParams.get('refresh') === '1';
+
+  try {
+    const provider = await getFollowGraphProvider();
+    console.log(`Finding ${hops}-hop intro paths from ${team.accounts.map(formatAccountRef).join(', ')} to ${formatAccountRef(targetAccount)}`);
+
+    const [targetSide, ...teamSides] = await Promise.all(
+      [targetAccount, ...team.accounts].map((account) => loadNetwork(provider, account, limits, refresh)),
+    );
+
+    const usersById = new Map<string, SocialDataUser>();
+    const remember = (user: SocialDataUser) => { if (!usersById.has(user.id_str)) usersById.set(user.id_str, user); };
+    [targetSide, ...teamSides].forEach((side) => { remember(side.user); side.users.forEach(remember); });
+    const accounts = new Map<string, IntroAccount>(
+      [...usersById.values()].map((user) => [user.id_str, { id: user.id_str, handle: user.screen_name, followersCount: user.followers_count ?? 0 }]),
+    );
+
+    const teamNetworks = teamSides.map((side) => side.network);
+    const twoHop = findTwoHopPaths(teamNetworks, targetSide.network, accounts);
+    let threeHop: ReturnType<typeof findThreeHopPaths> = [];
+    let intermediatesExplored = 0;
+    let incompleteLists = [targetSide, ...teamSides].some((side) => !side.isComplete);
+
+    if (hops === '3') {
+      const twoHopIds = new Set(twoHop.map((path) => path.connectorIds[0]));
+      const excludeIds = new Set([targetSide.network.id, ...teamNetworks.map((network) => network.id), ...twoHopIds]);
+      const candidates = rankTeamNeighbours(teamNetworks, accounts, excludeIds)
+        .filter(({ id }) => !usersById.get(id)?.protected)
+        .slice(0, maxIntermediates);
+
+      // A failing intermediate (suspended, protected since lookup...) only costs its own paths.
+      const intermediates = (await mapWithConcurrency(candidates, INTERMEDIATE_CONCURRENCY, async ({ id }) => {
+        try {
+          const result = await loadFollowList(provider, { kind: 'id', id }, 'followings', limits, { refresh });
+          result.list.users.forEach(remember);
+          if (!result.list.isComplete) incompleteLists = true;
+          return {
+            id,
+            handle: result.user.screen_name,
+            followings: new Set(result.list.users.map((user) => user.id_str)),
+            followers: new Set<string>(),
+          } satisfies AccountNetwork;
+        } catch (error) {
+          console.warn(`Skipping intermediate ${id} for 3-hop paths:`, (error as Error)?.message);
+          return null;
+        }
+      })).filter((network): network is AccountNetwork => network !== null);
+
+      intermediatesExplored = intermediates.length;
+      for (const user of usersById.values()) {
+        if (!accounts.has(user.id_str)) {
+          accounts.set(user.id_str, { id: user.id_str, handle: user.screen_name, followersCount: user.followers_count ?? 0 });
+        }
+      }
+      // A 3-hop path ending at a 2-hop connector is just a longer route to someone already listed.
+      threeHop = findThreeHopPaths(teamNetworks, targetSide.network, intermediates, accounts)
+        .filter((path) => !twoHopIds.has(path.connectorIds[1]));
+    }
+
+    const paths = [...twoHop, ...threeHop]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RETURNED_PATHS)
+      .map((path) => ({
+        hops: path.hops,
+        connectors: path.connectorIds.map((id) => toProfile(usersById.get(id)!)),
+        score: Math.round(path.score * 100) / 100,
+        reasons: path.reasons,
+      }));
+
+    const response: IntroPathsResponse = {
+      team: teamSides.map((side) => toProfile(side.user)),
+      target: toProfile(targetSide.user),
+      direct: teamNetworks.map((network) => ({
+        handle: network.handle,
+        followsTarget: network.followings.has(targetSide.network.id),
+        followedByTarget: network.followers.has(targetSide.network.id),
+      })),
+      paths,
+      stats: { twoHopCount: twoHop.length, threeHopCount: threeHop.length, intermediatesExplored, incompleteLists },
+    };
+    console.log(`Found ${twoHop.length} 2-hop and ${threeHop.length} 3-hop paths to ${formatAccountRef(targetAccount)}.`);
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn(`Intro path search to ${formatAccountRef(targetAccount)} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(error);
+  }
+});
@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { accountRefCacheKey, formatAccountRef, parseAccountInput, type AccountRef } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { INVALID_PAGINATION_MESSAGE, loadFollowList, parsePaginationLimits } from '@/lib/follow-list';
+import { computeOverlap } from '@/lib/graph/overlap';
+import { MAX_MUTUAL_ACCOUNTS, MIN_MUTUAL_ACCOUNTS, type MutualFollowingsResponse } from '@/lib/mutuals';
+import { toProfile } from '@/lib/socialdata';
+
+/** GET /api/mutual-followings?username=alice&username=bob[&username=...] */
+export const GET = withAuth(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const inputs = searchParams.getAll('username').flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+
+  if (inputs.length < MIN_MUTUAL_ACCOUNTS || inputs.length > MAX_MUTUAL_ACCOUNTS) {
+    return apiErrorResponse('INVALID_REQUEST', `Provide between ${MIN_MUTUAL_ACCOUNTS} and ${MAX_MUTUAL_ACCOUNTS} usernames.`, { field: 'username' });
+  }
+
+  const accounts: AccountRef[] = [];
+  for (const [index, input] of inputs.entries()) {
+    const account = parseAccountInput(input);
+    if (!account.ok) {
+      return apiErrorResponse('INVALID_REQUEST', `${input}: ${account.error}`, { field: 'username', index });
+    }
+    accounts.push(account.value);
+  }
+  if (new Set(accounts.map(accountRefCacheKey)).size !== accounts.length) {
+    return apiErrorResponse('INVALID_REQUEST', 'Each username can only be compared once.', { field: 'username' });
+  }
+
+  const limits = parsePaginationLimits(searchParams);
+  if (!limits) {
+    return apiErrorResponse('INVALID_REQUEST', INVALID_PAGINATION_MESSAGE);
+  }
+  const refresh = searchParams.get('refresh') === '1';
+
+  try {
+    const provider = await getFollowGraphProvider();
+    console.log(`Computing mutual followings for ${accounts.map(formatAccountRef).join(', ')}`);
+    const results = await Promise.all(accounts.map((account) => loadFollowList(provider, account, 'followings', limits, { refresh })));
+
+    const overlap = computeOverlap(results.map((result) => result.list.users), (user) => user.id_str);
+    const response: MutualFollowingsResponse = {
+      accounts: results.map((result, index) => ({
+        input: inputs[index],
+        user: toProfile(result.user),
+        totalCount: result.list.users.length,
+        isComplete: result.list.isComplete,
+      })),
+      intersection: overlap.intersection.map(toProfile),
+      uniqueTo: overlap.uniqueTo.map((users) => users.map(toProfile)),
+      stats: {
+        counts: overlap.counts,
+        intersectionCount: overlap.intersection.length,
+        unionCount: overlap.unionCount,
+        jaccard: overlap.jaccard,
+        pairwise: overlap.pairwise,
+      },
+    };
+    console.log(`Mutual followings for ${accounts.map(formatAccountRef).join(', ')}: ${overlap.intersection.length} shared of ${overlap.unionCount}.`);
+
+    return NextResponse.json(response, {
+      headers: { 'X-Cache': results.every((result) => result.cacheStatus === 'HIT') ? 'HIT' : 'MISS' },
+    });
+  } catch (error) {
+    console.warn(`Mutual followings for ${accounts.map(formatAccountRef).join(', ')} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(error);
+  }
+});
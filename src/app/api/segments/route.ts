@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAccountClassifications } from '@/ai/account-categories';
+import { fromGenkitError } from '@/ai/errors';
+import { ApiError, apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getFollowGraphStore } from '@/lib/graph-store';
+import { MAX_SEGMENT_IDS, type SegmentsResponse } from '@/lib/segments';
+import { toProfile } from '@/lib/socialdata';
+
+const segmentsRequestSchema = z.object({
+  ids: z.array(z.string().regex(/^\d+$/)).min(1).max(MAX_SEGMENT_IDS),
+});
+
+/**
+ * POST /api/segments {"ids": ["123", ...]}
+ * Bios are read from the stored graph rather than taken from the request, so one caller
+ * cannot poison the shared per-account cache with made-up profiles.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiErrorResponse('INVALID_REQUEST', 'Request body must be JSON.');
+  }
+  const parsed = segmentsRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiErrorResponse('INVALID_REQUEST', `Provide 1-${MAX_SEGMENT_IDS} numeric account ids.`, { issues: parsed.error.issues });
+  }
+  const ids = [...new Set(parsed.data.ids)];
+
+  try {
+    const store = await getFollowGraphStore();
+    if (!store) {
+      throw new ApiError('CONFIG_MISSING', 'Categorizing accounts needs the follow graph store (FOLLOW_GRAPH_STORE is off).');
+    }
+    const accounts = await store.getAccounts(ids);
+    const found = new Set(accounts.map((account) => account.id_str));
+    const { classifications, cachedCount } = await getAccountClassifications(accounts.map(toProfile));
+
+    const response: SegmentsResponse = {
+      classifications,
+      missingIds: ids.filter((id) => !found.has(id)),
+      cachedCount,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn(`Categorizing ${ids.length} accounts failed:`, (error as Error)?.message);
+    return toApiErrorResponse(fromGenkitError(error));
+  }
+});
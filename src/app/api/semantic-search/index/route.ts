@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { indexBios } from '@/ai/bio-search';
+import { fromGenkitError } from '@/ai/errors';
+import { ApiError, toApiErrorResponse } from '@/lib/api-error-response';
+import { assertSchedulerRequest, withAuth } from '@/lib/auth-guard';
+import { getFollowGraphStore } from '@/lib/graph-store';
+import type { BioIndexResponse } from '@/lib/semantic-search';
+
+/** Stored accounts considered per run. */
+const MAX_INDEXED_ACCOUNTS = 5000;
+/** Bios embedded per run, to bound the time and embedding calls of one request. */
+const MAX_EMBEDS_PER_RUN = 500;
+
+/**
+ * POST /api/semantic-search/index: called by a scheduler (e.g. Cloud Scheduler) to embed the
+ * bios of stored accounts ahead of searches, which then only embed the few that are new. The
+ * scheduler sends CRON_SECRET as its bearer token; signed-in users are refused, since a run
+ * covers every stored account.
+ */
+export const POST = withAuth(async () => {
+  try {
+    assertSchedulerRequest();
+    const store = await getFollowGraphStore();
+    if (!store) {
+      throw new ApiError('CONFIG_MISSING', 'Indexing bios needs the follow graph store (FOLLOW_GRAPH_STORE is off).');
+    }
+    const response: BioIndexResponse = await indexBios(await store.listAccounts(MAX_INDEXED_ACCOUNTS), MAX_EMBEDS_PER_RUN);
+    console.log(`Bio indexing run complete: ${response.embedded} embedded, ${response.pendingCount} pending.`);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn('Bio indexing failed:', (error as Error)?.message);
+    return toApiErrorResponse(fromGenkitError(error));
+  }
+}, { allowScheduler: true });
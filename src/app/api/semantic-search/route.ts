@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { searchBios } from '@/ai/bio-search';
+import { fromGenkitError } from '@/ai/errors';
+import { formatAccountRef, parseAccountInput, type AccountRef } from '@/lib/account-input';
+import { ApiError, apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getFollowGraphStore, type FollowGraphStore, type StoredAccount } from '@/lib/graph-store';
+import {
+  DEFAULT_SEMANTIC_RESULTS,
+  MAX_SEMANTIC_QUERY_LENGTH,
+  MAX_SEMANTIC_RESULTS,
+  type SemanticSearchResponse,
+} from '@/lib/semantic-search';
+import { toProfile } from '@/lib/socialdata';
+
+/** The followings of `within` as stored by earlier lookups. */
+async function accountsInScope(store: FollowGraphStore, within: AccountRef): Promise<{ owner: StoredAccount; accounts: StoredAccount[] }> {
+  const owner = within.kind === 'handle' ? await store.findAccountByHandle(within.handle) : await store.getAccount(within.id);
+  const meta = owner && await store.getEdgeSetMeta(owner.id_str, 'followings');
+  if (!owner || !meta) {
+    throw new ApiError('NOT_FOUND', `The followings of ${formatAccountRef(within)} have not been fetched yet. Look them up first.`);
+  }
+  return { owner, accounts: await store.getAccounts(await store.listNeighbourIds(owner.id_str, 'followings')) };
+}
+
+/**
+ * GET /api/semantic-search?q=seed-stage%20VC&within=alice[&limit=20]
+ * Ranks the stored followings of `within` by how close their bios are in meaning to `q`, so
+ * "early investor" matches a search for "seed-stage VC". `within` is required: the graph
+ * holds every user's lookups, and a search only covers accounts the caller names.
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('q')?.trim() ?? '';
+  if (!query || query.length > MAX_SEMANTIC_QUERY_LENGTH) {
+    return apiErrorResponse('INVALID_REQUEST', `Enter a search of at most ${MAX_SEMANTIC_QUERY_LENGTH} characters.`, { field: 'q' });
+  }
+  const rawLimit = searchParams.get('limit');
+  const limit = rawLimit ? Number(rawLimit) : DEFAULT_SEMANTIC_RESULTS;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_RESULTS) {
+    return apiErrorResponse('INVALID_REQUEST', `limit must be an integer between 1 and ${MAX_SEMANTIC_RESULTS}.`, { field: 'limit' });
+  }
+  const rawWithin = searchParams.get('within');
+  if (!rawWithin) {
+    return apiErrorResponse('INVALID_REQUEST', 'Name the account whose followings to search.', { field: 'within' });
+  }
+  const within = parseAccountInput(rawWithin);
+  if (!within.ok) {
+    return apiErrorResponse('INVALID_REQUEST', within.error, { field: 'within' });
+  }
+
+  try {
+    const store = await getFollowGraphStore();
+    if (!store) {
+      throw new ApiError('CONFIG_MISSING', 'Semantic search needs the follow graph store (FOLLOW_GRAPH_STORE is off).');
+    }
+    const { owner, accounts } = await accountsInScope(store, within.value);
+    console.log(`Semantic search over ${accounts.length} accounts followed by ${owner.screen_name}.`);
+    const { matches, searchedCount, pendingCount, embedder } = await searchBios(accounts, query, limit);
+
+    const byId = new Map(accounts.map((account) => [account.id_str, account]));
+    const response: SemanticSearchResponse = {
+      query,
+      within: toProfile(owner),
+      results: matches.map(({ id, score }) => ({ profile: toProfile(byId.get(id)!), score })),
+      searchedCount,
+      pendingCount,
+      embedder,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn('Semantic search failed:', (error as Error)?.message);
+    return toApiErrorResponse(fromGenkitError(error));
+  }
+});
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { formatAccountRef, parseAccountInput } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { lookupListableAccount } from '@/lib/follow-list';
+import { buildSnapshotDiff, getSnapshotStore } from '@/lib/snapshot-store';
+import type { SnapshotDiffResponse } from '@/lib/snapshots';
+import { toProfile } from '@/lib/socialdata';
+
+/**
+ * GET /api/snapshots/diff?username=alice[&from=<snapshotId>][&to=<snapshotId>]
+ * `to` defaults to the latest snapshot and `from` to the one before `to`.
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const rawUsername = searchParams.get('username');
+  if (!rawUsername) {
+    return apiErrorResponse('INVALID_REQUEST', 'Username is required.', { field: 'username' });
+  }
+  const account = parseAccountInput(rawUsername);
+  if (!account.ok) {
+    return apiErrorResponse('INVALID_REQUEST', account.error, { field: 'username' });
+  }
+
+  try {
+    const provider = await getFollowGraphProvider();
+    const { user } = await lookupListableAccount(provider, account.value);
+    const history = await (await getSnapshotStore()).list(user.id_str);
+
+    const toId = searchParams.get('to');
+    const toIndex = toId ? history.findIndex((snapshot) => snapshot.id === toId) : 0;
+    const fromId = searchParams.get('from');
+    const fromIndex = fromId ? history.findIndex((snapshot) => snapshot.id === fromId) : toIndex + 1;
+
+    if (toIndex < 0 || !history[toIndex]) {
+      return apiErrorResponse('NOT_FOUND', toId ? `Snapshot ${toId} not found for @${user.screen_name}.` : `@${user.screen_name} has no snapshots yet.`, { snapshotId: toId });
+    }
+    if (fromIndex < 0 || !history[fromIndex]) {
+      return apiErrorResponse('NOT_FOUND', fromId ? `Snapshot ${fromId} not found for @${user.screen_name}.` : `@${user.screen_name} needs at least two snapshots to compare.`, { snapshotId: fromId });
+    }
+
+    const diff = await buildSnapshotDiff(history, history[fromIndex], history[toIndex]);
+    const response: SnapshotDiffResponse = { account: toProfile(user), ...diff };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn(`Snapshot diff for ${formatAccountRef(account.value)} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(error);
+  }
+});
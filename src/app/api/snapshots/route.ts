@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { formatAccountRef, parseAccountInput } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { lookupListableAccount } from '@/lib/follow-list';
+import { buildSnapshotDiff, getSnapshotStore, summarizeHistory, takeFollowingSnapshot } from '@/lib/snapshot-store';
+import type { SnapshotHistoryResponse, TakeSnapshotResponse } from '@/lib/snapshots';
+import { toProfile } from '@/lib/socialdata';
+
+const takeSnapshotSchema = z.object({ username: z.string() });
+
+/** GET /api/snapshots?username=alice: the account's snapshot history, newest first. */
+export const GET = withAuth(async (request: NextRequest) => {
+  const rawUsername = request.nextUrl.searchParams.get('username');
+  if (!rawUsername) {
+    return apiErrorResponse('INVALID_REQUEST', 'Username is required.', { field: 'username' });
+  }
+  const account = parseAccountInput(rawUsername);
+  if (!account.ok) {
+    return apiErrorResponse('INVALID_REQUEST', account.error, { field: 'username' });
+  }
+
+  try {
+    const provider = await getFollowGraphProvider();
+    const { user } = await lookupListableAccount(provider, account.value);
+    const snapshots = await (await getSnapshotStore()).list(user.id_str);
+
+    const response: SnapshotHistoryResponse = { account: toProfile(user), snapshots: summarizeHistory(snapshots) };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.warn(`Snapshot history for ${formatAccountRef(account.value)} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(error);
+  }
+});
+
+/** POST /api/snapshots {"username": "alice"}: takes a snapshot now and diffs it with the previous one. */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiErrorResponse('INVALID_REQUEST', 'Request body must be JSON.');
+  }
+  const parsed = takeSnapshotSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiErrorResponse('INVALID_REQUEST', 'Username is required.', { field: 'username' });
+  }
+  const account = parseAccountInput(parsed.data.username);
+  if (!account.ok) {
+    return apiErrorResponse('INVALID_REQUEST', account.error, { field: 'username' });
+  }
+
+  try {
+    const provider = await getFollowGraphProvider();
+    const { user, snapshot, history } = await takeFollowingSnapshot(provider, account.value, 'manual');
+    const previous = history[1] ?? null;
+
+    const response: TakeSnapshotResponse = {
+      account: toProfile(user),
+      snapshot: summarizeHistory(history)[0],
+      diff: previous ? await buildSnapshotDiff(history, previous, snapshot) : null,
+    };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.warn(`Snapshot of ${formatAccountRef(account.value)} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(error);
+  }
+});
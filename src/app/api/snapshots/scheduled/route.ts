@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { toApiErrorResponse } from '@/lib/api-error-response';
+import { assertSchedulerRequest, withAuth } from '@/lib/auth-guard';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { runScheduledSnapshots } from '@/lib/snapshot-store';
+
+/**
+ * POST /api/snapshots/scheduled: called by a scheduler (e.g. Cloud Scheduler) to refresh
+ * every tracked account that is due. The scheduler sends CRON_SECRET as its bearer token;
+ * signed-in users are refused, since one run spends upstream calls on every tracked account.
+ */
+export const POST = withAuth(async () => {
+  try {
+    assertSchedulerRequest();
+    const provider = await getFollowGraphProvider();
+    const results = await runScheduledSnapshots(provider);
+    const succeeded = results.filter((result) => result.ok).length;
+    console.log(`Scheduled snapshot run complete: ${succeeded} succeeded, ${results.length - succeeded} failed.`);
+    return NextResponse.json({ results, summary: { due: results.length, succeeded, failed: results.length - succeeded } });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}, { allowScheduler: true });
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getRequestContext } from '@/lib/request-context';
+import { MAX_USAGE_DAYS, type UsageResponse } from '@/lib/usage';
+import { getDailySeries, getQuotaStatuses } from '@/lib/usage-store';
+
+const DEFAULT_USAGE_DAYS = 30;
+
+/** GET /api/usage[?days=30]: the caller's quotas and daily upstream usage, with their workspace's. */
+export const GET = withAuth(async (request: NextRequest) => {
+  const rawDays = request.nextUrl.searchParams.get('days');
+  const days = rawDays ? Number(rawDays) : DEFAULT_USAGE_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+    return apiErrorResponse('INVALID_REQUEST', `days must be an integer between 1 and ${MAX_USAGE_DAYS}.`, { field: 'days' });
+  }
+  const { uid, workspaceId, plan } = getRequestContext()!;
+
+  try {
+    const [quotas, workspaceQuotas, userDaily, workspaceDaily] = await Promise.all([
+      getQuotaStatuses({ kind: 'user', id: uid }, plan),
+      getQuotaStatuses({ kind: 'workspace', id: workspaceId }, plan),
+      getDailySeries({ kind: 'user', id: uid }, days),
+      getDailySeries({ kind: 'workspace', id: workspaceId }, days),
+    ]);
+    const response: UsageResponse = {
+      plan,
+      user: { id: uid, quotas, daily: userDaily },
+      workspace: { id: workspaceId, quotas: workspaceQuotas, daily: workspaceDaily },
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+});
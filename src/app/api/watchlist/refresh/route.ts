@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { toApiErrorResponse } from '@/lib/api-error-response';
+import { SCHEDULER_UID, withAuth } from '@/lib/auth-guard';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { getRequestContext } from '@/lib/request-context';
+import { runWatchlistRefresh } from '@/lib/watchlist-store';
+
+/**
+ * POST /api/watchlist/refresh: re-snapshots watched and network accounts and records alerts
+ * for their new follows. Signed-in users ("Refresh now") refresh their own watchlist; a
+ * scheduler sending CRON_SECRET as its bearer token refreshes every user's.
+ */
+export const POST = withAuth(async () => {
+  const { uid } = getRequestContext()!;
+  try {
+    const provider = await getFollowGraphProvider();
+    return NextResponse.json(await runWatchlistRefresh(provider, uid === SCHEDULER_UID ? null : uid));
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}, { allowScheduler: true });
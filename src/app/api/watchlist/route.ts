@@ -0,0 +1,103 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { formatAccountRef, parseAccountInput } from '@/lib/account-input';
+import { apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withAuth } from '@/lib/auth-guard';
+import { getFollowGraphProvider } from '@/lib/follow-graph';
+import { lookupListableAccount } from '@/lib/follow-list';
+import { getRequestContext } from '@/lib/request-context';
+import { takeFollowingSnapshot } from '@/lib/snapshot-store';
+import { MAX_WATCHLIST_SIZE, WATCH_ROLES, type WatchlistEntry, type WatchlistResponse } from '@/lib/watchlist';
+import { getWatchlistStore } from '@/lib/watchlist-store';
+
+const addEntrySchema = z.object({
+  username: z.string(),
+  role: z.enum(WATCH_ROLES).default('watch'),
+});
+
+/** GET /api/watchlist: the caller's watchlist. */
+export const GET = withAuth(async () => {
+  const { uid } = getRequestContext()!;
+  try {
+    const entries = await (await getWatchlistStore()).listEntries(uid);
+    const response: WatchlistResponse = { entries: entries.sort((a, b) => b.addedAt.localeCompare(a.addedAt)) };
+    return NextResponse.json(response);
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+});
+
+/**
+ * POST /api/watchlist {"username": "alice", "role": "watch"|"network"|"target"}
+ * Watched and network accounts get a baseline snapshot right away, so the next refresh
+ * can already report new follows.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiErrorResponse('INVALID_REQUEST', 'Request body must be JSON.');
+  }
+  const parsed = addEntrySchema.safeParse(body);
+  if (!parsed.success) {
+    return apiErrorResponse('INVALID_REQUEST', `Provide a username and a role (${WATCH_ROLES.join(', ')}).`, { issues: parsed.error.issues });
+  }
+  const account = parseAccountInput(parsed.data.username);
+  if (!account.ok) {
+    return apiErrorResponse('INVALID_REQUEST', account.error, { field: 'username' });
+  }
+  const { role } = parsed.data;
+  const { uid } = getRequestContext()!;
+
+  try {
+    const store = await getWatchlistStore();
+    const entries = await store.listEntries(uid);
+    const provider = await getFollowGraphProvider();
+    const { user } = await lookupListableAccount(provider, account.value);
+
+    const existing = entries.find((entry) => entry.accountId === user.id_str);
+    if (!existing && entries.length >= MAX_WATCHLIST_SIZE) {
+      return apiErrorResponse('INVALID_REQUEST', `The watchlist is limited to ${MAX_WATCHLIST_SIZE} accounts.`);
+    }
+
+    let entry: WatchlistEntry = {
+      accountId: user.id_str,
+      handle: user.screen_name,
+      role,
+      addedAt: existing?.addedAt ?? new Date().toISOString(),
+      lastSnapshotId: existing?.lastSnapshotId ?? null,
+      lastCheckedAt: existing?.lastCheckedAt ?? null,
+    };
+    if (role !== 'target' && !entry.lastSnapshotId) {
+      const { snapshot } = await takeFollowingSnapshot(provider, { kind: 'id', id: user.id_str }, 'manual');
+      entry = { ...entry, lastSnapshotId: snapshot.id, lastCheckedAt: new Date(snapshot.takenAt).toISOString() };
+    }
+
+    await store.upsertEntry(uid, entry);
+    console.log(`${existing ? 'Updated' : 'Added'} @${entry.handle} on the watchlist as ${role}.`);
+    return NextResponse.json(entry, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.warn(`Adding ${formatAccountRef(account.value)} to the watchlist failed:`, (error as Error)?.message);
+    return toApiErrorResponse(error);
+  }
+});
+
+/** DELETE /api/watchlist?accountId=1001 */
+export const DELETE = withAuth(async (request: NextRequest) => {
+  const accountId = request.nextUrl.searchParams.get('accountId');
+  if (!accountId) {
+    return apiErrorResponse('INVALID_REQUEST', 'accountId is required.', { field: 'accountId' });
+  }
+
+  const { uid } = getRequestContext()!;
+  try {
+    const removed = await (await getWatchlistStore()).removeEntry(uid, accountId);
+    if (!removed) {
+      return apiErrorResponse('NOT_FOUND', `Account ${accountId} is not on your watchlist.`, { accountId });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+});
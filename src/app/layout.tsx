@@ -3,6 +3,8 @@ import type {Metadata} from 'next';
 import {Geist, Geist_Mono} from 'next/font/google';
 import './globals.css';
 import { Toaster } from "@/components/ui/toaster";
+import { SessionHeader } from "@/components/session-header";
+import { AuthProvider } from "@/context/AuthContext";
 
 const geistSans = Geist({
   variable: '--font-geist-sans',
@@ -27,8 +29,11 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
-        {children}
-        <Toaster />
+        <AuthProvider>
+          <SessionHeader />
+          {children}
+          <Toaster />
+        </AuthProvider>
       </body>
     </html>
   );
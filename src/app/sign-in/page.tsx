@@ -0,0 +1,199 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState, type FormEvent } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { AlertCircle, Loader2, Mail, MailCheck } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { describeAuthError, useAuth } from '@/context/AuthContext';
+
+// Placeholder origin to resolve `next` against; it never leaves this module.
+const NEXT_PATH_BASE = 'https://sign-in.invalid';
+
+/**
+ * Only same-origin paths are followed after sign-in. `next` is resolved the way the browser
+ * would resolve it, so `/\evil.com` or embedded tabs and newlines cannot reach another host,
+ * and a path that normalizes to `//host` (e.g. `/.//evil.com`) is refused as well.
+ */
+function safeNextPath(next: string | null): string {
+  if (!next?.startsWith('/')) return '/';
+  try {
+    const url = new URL(next, NEXT_PATH_BASE);
+    if (url.origin !== NEXT_PATH_BASE || url.pathname.startsWith('//')) return '/';
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return '/';
+  }
+}
+
+function SignInForm() {
+  const { user, loading, signInWithGoogle, sendEmailLink, isEmailLink, pendingEmail, completeEmailLink } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+
+  const [email, setEmail] = useState('');
+  const [pending, setPending] = useState<'google' | 'email' | 'link' | null>(null);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  // Set when the page was opened from a sign-in link in a browser that did not request it.
+  const [needsEmailForLink, setNeedsEmailForLink] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const linkHandled = useRef(false);
+
+  useEffect(() => {
+    if (user) router.replace(nextPath);
+  }, [user, router, nextPath]);
+
+  const finishEmailLink = async (emailForLink: string) => {
+    setPending('link');
+    setError(null);
+    try {
+      await completeEmailLink(emailForLink, window.location.href);
+    } catch (err) {
+      console.error('Email link sign-in failed:', err);
+      setError(describeAuthError(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  useEffect(() => {
+    if (loading || user || linkHandled.current || !isEmailLink(window.location.href)) return;
+    linkHandled.current = true;
+    const savedEmail = pendingEmail();
+    if (savedEmail) {
+      void finishEmailLink(savedEmail);
+    } else {
+      setNeedsEmailForLink(true);
+    }
+    // finishEmailLink only uses stable callbacks from the auth context, so it is not a dependency.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, user, isEmailLink, pendingEmail]);
+
+  const handleGoogle = async () => {
+    setPending('google');
+    setError(null);
+    try {
+      await signInWithGoogle();
+    } catch (err) {
+      console.error('Google sign-in failed:', err);
+      setError(describeAuthError(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleEmail = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = email.trim();
+    if (!trimmed) return;
+    if (needsEmailForLink) {
+      await finishEmailLink(trimmed);
+      return;
+    }
+
+    setPending('email');
+    setError(null);
+    try {
+      await sendEmailLink(trimmed, `/sign-in?next=${encodeURIComponent(nextPath)}`);
+      setLinkSentTo(trimmed);
+    } catch (err) {
+      console.error('Sending the sign-in link failed:', err);
+      setError(describeAuthError(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (loading || user || pending === 'link') {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center" aria-live="polite">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="sr-only">Signing you in...</span>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="shadow-xl rounded-lg">
+      <CardHeader>
+        <CardTitle className="text-2xl">Sign in</CardTitle>
+        <CardDescription>
+          {needsEmailForLink
+            ? 'Confirm the email address this sign-in link was sent to.'
+            : 'Sign in to look up followings and track accounts.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-5 w-5" />
+            <AlertTitle>Sign-in failed</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {linkSentTo ? (
+          <Alert>
+            <MailCheck className="h-5 w-5" />
+            <AlertTitle>Check your inbox</AlertTitle>
+            <AlertDescription>
+              We sent a sign-in link to {linkSentTo}. Open it in this browser to finish signing in.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {!needsEmailForLink && (
+              <>
+                <Button type="button" variant="outline" className="w-full" onClick={handleGoogle} disabled={pending !== null}>
+                  {pending === 'google' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Continue with Google
+                </Button>
+                <div className="flex items-center gap-3">
+                  <Separator className="flex-1" />
+                  <span className="text-xs uppercase text-muted-foreground">or</span>
+                  <Separator className="flex-1" />
+                </div>
+              </>
+            )}
+            <form onSubmit={handleEmail} className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="sign-in-email">Email</Label>
+                <Input
+                  id="sign-in-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  disabled={pending !== null}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={pending !== null || !email.trim()}>
+                {pending === 'email' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                {needsEmailForLink ? 'Finish signing in' : 'Email me a sign-in link'}
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SignInPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-start p-4 sm:p-8 md:p-16 bg-background font-sans">
+      <div className="w-full max-w-sm">
+        {/* useSearchParams needs a Suspense boundary to prerender. */}
+        <Suspense>
+          <SignInForm />
+        </Suspense>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { Loader2, ListChecks, AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from "@/hooks/use-toast";
+import { parseAccountInput } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import { MAX_BATCH_SIZE, splitBatchInput, type BatchResponse } from '@/lib/batch';
+
+export function BatchLookup() {
+  const [text, setText] = useState('');
+  const [response, setResponse] = useState<BatchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const entries = useMemo(() => splitBatchInput(text), [text]);
+  const invalidEntries = useMemo(
+    () => entries.filter((entry) => !parseAccountInput(entry).ok),
+    [entries],
+  );
+  const tooMany = entries.length > MAX_BATCH_SIZE;
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+    setError(null);
+    setResponse(null);
+
+    try {
+      const res = await apiFetch('/api/get-followings/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ usernames: entries }),
+      });
+      const data: unknown = await res.json();
+
+      if (!res.ok) {
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${res.statusText}`;
+        setError(displayError);
+        toast({ title: "Batch Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+
+      const batch = data as BatchResponse;
+      setResponse(batch);
+      toast({
+        title: "Batch Complete",
+        description: `${batch.summary.succeeded} of ${batch.summary.requested} handles fetched.`,
+      });
+    } catch (err: any) {
+      console.error('Client-side batch fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Batch Lookup</CardTitle>
+          <CardDescription>
+            Paste up to {MAX_BATCH_SIZE} usernames or profile links, one per line or comma-separated (a CSV column works too).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"alice\n@bob\nhttps://x.com/carol"}
+            rows={8}
+            disabled={isLoading}
+            aria-label="Usernames to look up"
+            className="font-mono text-sm"
+          />
+          <p className="text-sm text-muted-foreground">
+            {entries.length} handle{entries.length === 1 ? '' : 's'} detected
+            {invalidEntries.length > 0 && (
+              <span className="text-destructive">
+                {' '}· {invalidEntries.length} invalid: {invalidEntries.slice(0, 5).join(', ')}{invalidEntries.length > 5 ? '…' : ''}
+              </span>
+            )}
+            {tooMany && <span className="text-destructive"> · the limit is {MAX_BATCH_SIZE}</span>}
+          </p>
+          <Button
+            className="w-full text-base py-3"
+            onClick={handleSubmit}
+            disabled={isLoading || entries.length === 0 || tooMany}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Fetching {entries.length} handles...
+              </>
+            ) : (
+              <>
+                <ListChecks className="mr-2 h-5 w-5" />
+                Get Followings for All
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="shadow-lg rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {response && (
+        <Card className="shadow-xl rounded-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">Batch Results</CardTitle>
+            <CardDescription>
+              {response.summary.succeeded} succeeded, {response.summary.failed} failed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Handle</TableHead>
+                  <TableHead className="text-right">Following</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {response.results.map((result, index) => (
+                  <TableRow key={`${result.input}-${index}`}>
+                    <TableCell className="font-medium">{result.input}</TableCell>
+                    <TableCell className="text-right">
+                      {result.ok ? result.totalCount.toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {result.ok ? (
+                        <Badge variant={result.isComplete ? 'secondary' : 'outline'}>
+                          {result.isComplete ? 'Complete' : 'Truncated'}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-destructive">
+                          {describeApiError(result.error)}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
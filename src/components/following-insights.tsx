@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw, Sparkles } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from "@/hooks/use-toast";
+import { encodeAccountRef, formatAccountRef, type AccountRef } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import type { InsightsResponse } from '@/lib/insights';
+
+const CONFIDENCE_VARIANTS = { low: 'outline', medium: 'secondary', high: 'default' } as const;
+
+/** The "Insights" card under a lookup's results: an on-demand AI summary of the account's followings. */
+export function FollowingInsights({ account }: { account: AccountRef }) {
+  const [result, setResult] = useState<InsightsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const generate = async (refresh: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`/api/insights?username=${encodeAccountRef(account)}${refresh ? '&refresh=1' : ''}`);
+      const data: unknown = await response.json();
+      if (!response.ok) {
+        const displayError = isApiErrorBody(data)
+          ? describeApiError(data, { account: formatAccountRef(account) })
+          : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: "Insights Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+      setResult(data as InsightsResponse);
+    } catch (err: any) {
+      console.error('Client-side insights fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const insights = result?.insights;
+
+  return (
+    <Card className="shadow-xl rounded-lg">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Insights
+          </CardTitle>
+          <CardDescription>
+            {result
+              ? `Based on ${result.sampledCount.toLocaleString()} of ${result.totalCount.toLocaleString()} followings, generated ${new Date(result.generatedAt).toLocaleString()}.`
+              : `What ${formatAccountRef(account)}'s followings say about their interests and role.`}
+          </CardDescription>
+        </div>
+        {result && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => generate(true)} disabled={isLoading}>
+            <RefreshCw className="mr-1 h-4 w-4" />
+            Regenerate
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-5 w-5" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!insights && (
+          <Button type="button" variant="outline" className="w-full" onClick={() => generate(false)} disabled={isLoading}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+            Generate insights
+          </Button>
+        )}
+
+        {insights && (
+          <>
+            <p className="text-sm">{insights.summary}</p>
+
+            <div className="space-y-1">
+              <p className="flex flex-wrap items-center gap-2 font-medium">
+                {insights.role} · {insights.industry}
+                <Badge variant={CONFIDENCE_VARIANTS[insights.confidence]}>{insights.confidence} confidence</Badge>
+              </p>
+              <p className="text-sm text-muted-foreground">{insights.rationale}</p>
+            </div>
+
+            <ul className="space-y-4">
+              {insights.themes.map((theme) => (
+                <li key={theme.name} className="space-y-1">
+                  <p className="flex items-baseline justify-between gap-2">
+                    <span className="font-medium">{theme.name}</span>
+                    <span className="text-xs text-muted-foreground">~{Math.round(theme.share * 100)}% of sample</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">{theme.description}</p>
+                  {theme.notableAccounts.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {theme.notableAccounts.map((profile) => (
+                        <a key={profile.id_str} href={`https://x.com/${profile.handle}`} target="_blank" rel="noopener noreferrer" title={profile.name}>
+                          <Badge variant="secondary">@{profile.handle}</Badge>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
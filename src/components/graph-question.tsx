@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, type FormEvent } from 'react';
+import { AlertCircle, Loader2, MessageCircleQuestion } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { ProfileListItem } from '@/components/profile-list-item';
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import {
+  MAX_QUESTION_LENGTH,
+  type GraphAnswerResponse,
+  type GraphQuery,
+  type GraphQuestionRequest,
+} from '@/lib/graph-questions';
+import { ACCOUNT_CATEGORY_LABELS } from '@/lib/segments';
+
+/** Compact, human-readable form of a structured query, e.g. "followed by @alice + @bob · investor". */
+function describeQuery(query: GraphQuery): string {
+  const parts = [
+    query.followedByAll?.length ? `followed by ${query.followedByAll.map((handle) => `@${handle.replace(/^@/, '')}`).join(' + ')}` : null,
+    query.followingAll?.length ? `following ${query.followingAll.map((handle) => `@${handle.replace(/^@/, '')}`).join(' + ')}` : null,
+    query.categories?.length ? query.categories.map((category) => ACCOUNT_CATEGORY_LABELS[category]).join(' or ') : null,
+    query.bioKeywords?.length ? `bio: ${query.bioKeywords.join(', ')}` : null,
+    query.minFollowers !== undefined ? `≥ ${query.minFollowers.toLocaleString()} followers` : null,
+    query.maxFollowers !== undefined ? `≤ ${query.maxFollowers.toLocaleString()} followers` : null,
+  ];
+  return parts.filter(Boolean).join(' · ') || 'all stored accounts';
+}
+
+export function GraphQuestion() {
+  const [question, setQuestion] = useState('');
+  const [result, setResult] = useState<GraphAnswerResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!question.trim()) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const body: GraphQuestionRequest = { question: question.trim() };
+      const response = await apiFetch('/api/graph-question', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data: unknown = await response.json();
+      if (!response.ok) {
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: "Question Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+      setResult(data as GraphAnswerResponse);
+    } catch (err: any) {
+      console.error('Client-side graph question fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Ask Your Graph</CardTitle>
+          <CardDescription>
+            Ask about accounts you have already looked up, e.g. &quot;fintech investors followed by both @alice and @bob&quot;.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              maxLength={MAX_QUESTION_LENGTH}
+              placeholder="Which founders with over 10k followers does @alice follow?"
+              disabled={isLoading}
+              aria-label="Question"
+            />
+            <Button type="submit" className="w-full text-base py-3" disabled={isLoading || !question.trim()}>
+              {isLoading ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <MessageCircleQuestion className="mr-2 h-5 w-5" />}
+              Ask
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="shadow-lg rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <Card className="shadow-xl rounded-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">Answer</CardTitle>
+            <CardDescription>{result.question}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm whitespace-pre-line">{result.answer}</p>
+
+            {result.queries.length > 0 && (
+              <div className="flex flex-wrap gap-1" aria-label="Queries run">
+                {result.queries.map((query, index) => (
+                  <Badge key={index} variant="outline" className="font-normal">{describeQuery(query)}</Badge>
+                ))}
+              </div>
+            )}
+
+            {result.citations.length > 0 && (
+              <ol className="space-y-3">
+                {result.citations.map((citation) => (
+                  <ProfileListItem key={citation.profile.id_str} profile={citation.profile}>
+                    <p className="mt-2 text-xs">
+                      <span className="font-semibold">[{citation.index}]</span> {citation.note}
+                    </p>
+                    {citation.categories.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {citation.categories.map((category) => (
+                          <Badge key={category} variant="secondary" className="text-xs font-normal">{ACCOUNT_CATEGORY_LABELS[category]}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </ProfileListItem>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
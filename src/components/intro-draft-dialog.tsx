@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from 'react';
+import { AlertCircle, Copy, Loader2, MessageSquarePlus, Sparkles } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import {
+  INTRO_LENGTHS,
+  INTRO_TONES,
+  MAX_INTRO_GOAL_LENGTH,
+  type IntroDraft,
+  type IntroDraftRequest,
+  type IntroDraftResponse,
+  type IntroLength,
+  type IntroTone,
+} from '@/lib/intro-drafts';
+import type { XProfile } from '@/lib/socialdata';
+
+interface IntroDraftDialogProps {
+  /** The team members the ask can come from; the first is preselected. */
+  requesters: XProfile[];
+  connector: XProfile;
+  target: XProfile;
+}
+
+/** Drafts, edits and copies a double-opt-in intro ask to `connector` about `target`. */
+export function IntroDraftDialog({ requesters, connector, target }: IntroDraftDialogProps) {
+  const [requesterId, setRequesterId] = useState(requesters[0]?.id_str ?? '');
+  const [goal, setGoal] = useState('');
+  const [tone, setTone] = useState<IntroTone>('friendly');
+  const [length, setLength] = useState<IntroLength>('medium');
+  const [draft, setDraft] = useState<IntroDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const requester = requesters.find((profile) => profile.id_str === requesterId) ?? requesters[0];
+
+  const generate = async () => {
+    if (!requester) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const body: IntroDraftRequest = {
+        requester: `id:${requester.id_str}`,
+        connector: `id:${connector.id_str}`,
+        target: `id:${target.id_str}`,
+        goal: goal.trim(),
+        tone,
+        length,
+      };
+      const response = await apiFetch('/api/intro-draft', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data: unknown = await response.json();
+      if (!response.ok) {
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: "Draft Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+      setDraft((data as IntroDraftResponse).draft);
+    } catch (err: any) {
+      console.error('Client-side intro draft fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description: `${label} copied to the clipboard.` });
+    } catch {
+      toast({ title: "Copy Failed", description: 'Your browser blocked clipboard access. Select the text and copy it instead.', variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="mt-2 text-xs">
+          <MessageSquarePlus className="mr-1 h-3 w-3" />
+          Draft intro ask
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Ask @{connector.handle} for an intro</DialogTitle>
+          <DialogDescription>
+            Drafts a message asking @{connector.handle} to check with @{target.handle} first, plus a blurb they can forward.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {requesters.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="intro-draft-requester">From</Label>
+              <Select value={requesterId} onValueChange={setRequesterId}>
+                <SelectTrigger id="intro-draft-requester">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {requesters.map((profile) => (
+                    <SelectItem key={profile.id_str} value={profile.id_str}>@{profile.handle}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="intro-draft-goal">Why do you want to meet @{target.handle}?</Label>
+            <Textarea
+              id="intro-draft-goal"
+              value={goal}
+              onChange={(e) => setGoal(e.target.value)}
+              maxLength={MAX_INTRO_GOAL_LENGTH}
+              placeholder="e.g., We're raising a seed round for a developer tools startup and they back infra founders."
+              disabled={isLoading}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="intro-draft-tone">Tone</Label>
+              <Select value={tone} onValueChange={(value) => setTone(value as IntroTone)}>
+                <SelectTrigger id="intro-draft-tone" className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTRO_TONES.map((value) => <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="intro-draft-length">Length</Label>
+              <Select value={length} onValueChange={(value) => setLength(value as IntroLength)}>
+                <SelectTrigger id="intro-draft-length" className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTRO_LENGTHS.map((value) => <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button type="button" className="w-full" onClick={generate} disabled={isLoading || !goal.trim()}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+            {draft ? 'Redraft' : 'Draft'}
+          </Button>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-5 w-5" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {draft && (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="intro-draft-ask">Message to @{connector.handle}</Label>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => copy(draft.ask, 'Message')}>
+                    <Copy className="mr-1 h-3 w-3" />
+                    Copy
+                  </Button>
+                </div>
+                <Textarea
+                  id="intro-draft-ask"
+                  value={draft.ask}
+                  onChange={(e) => setDraft({ ...draft, ask: e.target.value })}
+                  className="min-h-32"
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="intro-draft-blurb">Forwardable blurb for @{target.handle}</Label>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => copy(draft.blurb, 'Blurb')}>
+                    <Copy className="mr-1 h-3 w-3" />
+                    Copy
+                  </Button>
+                </div>
+                <Textarea
+                  id="intro-draft-blurb"
+                  value={draft.blurb}
+                  onChange={(e) => setDraft({ ...draft, blurb: e.target.value })}
+                  className="min-h-24"
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState, type FormEvent } from 'react';
+import { AlertCircle, ArrowRight, Loader2, Route } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { IntroDraftDialog } from '@/components/intro-draft-dialog';
+import { ProfileListItem } from '@/components/profile-list-item';
+import { useToast } from "@/hooks/use-toast";
+import { encodeAccountRef, parseAccountInput } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import { MAX_TEAM_SIZE, type IntroPathsResponse } from '@/lib/intro-paths';
+
+export function IntroPaths() {
+  const [from, setFrom] = useState('');
+  const [target, setTarget] = useState('');
+  const [includeThreeHop, setIncludeThreeHop] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<{ from?: string; target?: string }>({});
+  const [result, setResult] = useState<IntroPathsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const teamEntries = from.split(/[\s,]+/).filter(Boolean).map(parseAccountInput);
+    const targetEntry = parseAccountInput(target);
+
+    const errors: { from?: string; target?: string } = {};
+    const invalidTeam = teamEntries.find((entry) => !entry.ok);
+    if (teamEntries.length === 0) errors.from = 'Enter your X username.';
+    else if (teamEntries.length > MAX_TEAM_SIZE) errors.from = `At most ${MAX_TEAM_SIZE} team handles are supported.`;
+    else if (invalidTeam && !invalidTeam.ok) errors.from = invalidTeam.error;
+    if (!targetEntry.ok) errors.target = targetEntry.error;
+    setFieldErrors(errors);
+    if (errors.from || errors.target || !targetEntry.ok) return;
+
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const params = [
+        ...teamEntries.map((entry) => entry.ok ? `from=${encodeAccountRef(entry.value)}` : ''),
+        `target=${encodeAccountRef(targetEntry.value)}`,
+        `hops=${includeThreeHop ? 3 : 2}`,
+      ];
+      const response = await apiFetch(`/api/intro-paths?${params.join('&')}`);
+      const data: unknown = await response.json();
+
+      if (!response.ok) {
+        if (isApiErrorBody(data) && data.code === 'INVALID_REQUEST' && (data.details?.field === 'from' || data.details?.field === 'target')) {
+          setFieldErrors({ [data.details.field]: data.message });
+          return;
+        }
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: "Path Search Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+      setResult(data as IntroPathsResponse);
+    } catch (err: any) {
+      console.error('Client-side intro paths fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const directTies = result?.direct.filter((tie) => tie.followsTarget || tie.followedByTarget) ?? [];
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Find a Warm Intro</CardTitle>
+          <CardDescription>
+            Find the people who connect you (or your team) to someone you want to meet.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="intro-from">Your handle(s)</Label>
+              <Input
+                id="intro-from"
+                value={from}
+                onChange={(e) => { setFrom(e.target.value); setFieldErrors((prev) => ({ ...prev, from: undefined })); }}
+                placeholder="e.g., alice, bob"
+                disabled={isLoading}
+                aria-invalid={Boolean(fieldErrors.from)}
+              />
+              {fieldErrors.from && <p className="text-sm font-medium text-destructive">{fieldErrors.from}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="intro-target">Who do you want to meet?</Label>
+              <Input
+                id="intro-target"
+                value={target}
+                onChange={(e) => { setTarget(e.target.value); setFieldErrors((prev) => ({ ...prev, target: undefined })); }}
+                placeholder="e.g., carla_vc"
+                disabled={isLoading}
+                aria-invalid={Boolean(fieldErrors.target)}
+              />
+              {fieldErrors.target && <p className="text-sm font-medium text-destructive">{fieldErrors.target}</p>}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="intro-three-hop" checked={includeThreeHop} onCheckedChange={setIncludeThreeHop} disabled={isLoading} />
+              <Label htmlFor="intro-three-hop" className="font-normal">
+                Include 3-hop paths (slower, uses more API calls)
+              </Label>
+            </div>
+            <Button type="submit" className="w-full text-base py-3" disabled={isLoading || !from.trim() || !target.trim()}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Searching...
+                </>
+              ) : (
+                <>
+                  <Route className="mr-2 h-5 w-5" />
+                  Find Paths
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="shadow-lg rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <Card className="shadow-xl rounded-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">Suggested connectors to @{result.target.handle}</CardTitle>
+            <CardDescription>
+              {result.paths.length === 0
+                ? 'No connecting accounts found.'
+                : `Top ${result.paths.length} of ${result.stats.twoHopCount + result.stats.threeHopCount} paths, best first.`}
+              {result.stats.incompleteLists && ' Some follow lists were truncated, so paths may be missing.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {directTies.length > 0 && (
+              <Alert>
+                <AlertTitle>You are already connected</AlertTitle>
+                <AlertDescription>
+                  {directTies.map((tie) => (
+                    <span key={tie.handle} className="block">
+                      @{tie.handle}{' '}
+                      {tie.followsTarget && tie.followedByTarget ? 'and' : tie.followsTarget ? 'follows' : 'is followed by'}{' '}
+                      @{result.target.handle}{tie.followsTarget && tie.followedByTarget ? ' follow each other' : ''}.
+                    </span>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+            <ol className="space-y-3">
+              {result.paths.map((path) => (
+                <ProfileListItem key={path.connectors.map((c) => c.id_str).join('>')} profile={path.connectors[0]}>
+                  <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+                    <Badge variant={path.hops === 2 ? 'default' : 'secondary'}>{path.hops}-hop</Badge>
+                    {path.connectors.map((connector) => (
+                      <span key={connector.id_str} className="flex items-center gap-1">
+                        @{connector.handle}
+                        <ArrowRight className="h-3 w-3" />
+                      </span>
+                    ))}
+                    <span>@{result.target.handle}</span>
+                  </div>
+                  <ul className="mt-1 list-disc pl-4 text-xs text-muted-foreground">
+                    {path.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+                  </ul>
+                  {/* On a 3-hop path the first connector can only introduce you to the next one. */}
+                  <IntroDraftDialog requesters={result.team} connector={path.connectors[0]} target={path.connectors[1] ?? result.target} />
+                </ProfileListItem>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
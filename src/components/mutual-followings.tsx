@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, type FormEvent } from 'react';
+import { AlertCircle, GitCompare, Loader2, Plus, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ProfileListItem } from '@/components/profile-list-item';
+import { useToast } from "@/hooks/use-toast";
+import { encodeAccountRef, parseAccountInput } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import { MAX_MUTUAL_ACCOUNTS, MIN_MUTUAL_ACCOUNTS, type MutualFollowingsResponse } from '@/lib/mutuals';
+import type { XProfile } from '@/lib/socialdata';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/** Two-circle Venn diagram; circle overlap is fixed, the counts carry the information. */
+function VennDiagram({ leftLabel, rightLabel, leftOnly, shared, rightOnly }: {
+  leftLabel: string;
+  rightLabel: string;
+  leftOnly: number;
+  shared: number;
+  rightOnly: number;
+}) {
+  return (
+    <svg viewBox="0 0 300 170" className="w-full max-w-sm mx-auto" role="img" aria-label={`${leftLabel} and ${rightLabel} share ${shared} followings`}>
+      <circle cx="110" cy="80" r="70" className="fill-primary/20 stroke-primary" />
+      <circle cx="190" cy="80" r="70" className="fill-accent/30 stroke-accent" />
+      <text x="75" y="85" textAnchor="middle" className="fill-foreground text-lg font-semibold">{leftOnly}</text>
+      <text x="150" y="85" textAnchor="middle" className="fill-foreground text-lg font-bold">{shared}</text>
+      <text x="225" y="85" textAnchor="middle" className="fill-foreground text-lg font-semibold">{rightOnly}</text>
+      <text x="80" y="165" textAnchor="middle" className="fill-muted-foreground text-xs">{leftLabel}</text>
+      <text x="220" y="165" textAnchor="middle" className="fill-muted-foreground text-xs">{rightLabel}</text>
+    </svg>
+  );
+}
+
+function ProfileList({ profiles, emptyText }: { profiles: XProfile[]; emptyText: string }) {
+  if (profiles.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">{emptyText}</p>;
+  }
+  return (
+    <ScrollArea className="h-96 pr-3">
+      <ul className="space-y-3">
+        {profiles.map((profile) => <ProfileListItem key={profile.id_str} profile={profile} />)}
+      </ul>
+    </ScrollArea>
+  );
+}
+
+export function MutualFollowings() {
+  const [inputs, setInputs] = useState<string[]>(['', '']);
+  const [fieldErrors, setFieldErrors] = useState<(string | null)[]>([]);
+  const [result, setResult] = useState<MutualFollowingsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const updateInput = (index: number, value: string) => {
+    setInputs((previous) => previous.map((current, i) => (i === index ? value : current)));
+    setFieldErrors((previous) => previous.map((current, i) => (i === index ? null : current)));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = inputs.map(parseAccountInput);
+    const errors = parsed.map((entry) => (entry.ok ? null : entry.error));
+    setFieldErrors(errors);
+    if (errors.some(Boolean)) return;
+
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const query = parsed.map((entry) => entry.ok ? `username=${encodeAccountRef(entry.value)}` : '').join('&');
+      const response = await apiFetch(`/api/mutual-followings?${query}`);
+      const data: unknown = await response.json();
+
+      if (!response.ok) {
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: "Comparison Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+      setResult(data as MutualFollowingsResponse);
+    } catch (err: any) {
+      console.error('Client-side mutual followings fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handles = result?.accounts.map((account) => `@${account.user.handle}`) ?? [];
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Compare Followings</CardTitle>
+          <CardDescription>
+            See who {MIN_MUTUAL_ACCOUNTS} to {MAX_MUTUAL_ACCOUNTS} accounts all follow, the starting point for a warm intro.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {inputs.map((value, index) => (
+              <div key={index} className="space-y-1">
+                <div className="flex gap-2">
+                  <Input
+                    value={value}
+                    onChange={(e) => updateInput(index, e.target.value)}
+                    placeholder={index === 0 ? 'e.g., alice' : 'e.g., bob'}
+                    disabled={isLoading}
+                    aria-label={`Account ${index + 1}`}
+                    aria-invalid={Boolean(fieldErrors[index])}
+                  />
+                  {inputs.length > MIN_MUTUAL_ACCOUNTS && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        setInputs((previous) => previous.filter((_, i) => i !== index));
+                        setFieldErrors((previous) => previous.filter((_, i) => i !== index));
+                      }}
+                      aria-label={`Remove account ${index + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {fieldErrors[index] && <p className="text-sm font-medium text-destructive">{fieldErrors[index]}</p>}
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setInputs((previous) => [...previous, ''])}
+                disabled={isLoading || inputs.length >= MAX_MUTUAL_ACCOUNTS}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add account
+              </Button>
+              <Button type="submit" className="flex-1" disabled={isLoading || inputs.some((value) => !value.trim())}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Comparing...
+                  </>
+                ) : (
+                  <>
+                    <GitCompare className="mr-2 h-5 w-5" />
+                    Compare
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="shadow-lg rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <Card className="shadow-xl rounded-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">{result.stats.intersectionCount.toLocaleString()} shared followings</CardTitle>
+            <CardDescription>
+              Jaccard similarity {formatPercent(result.stats.jaccard)} across {result.stats.unionCount.toLocaleString()} distinct followings.
+              {result.accounts.some((account) => !account.isComplete) && ' Some lists were truncated, so the overlap may be understated.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {result.accounts.length === 2 ? (
+              <VennDiagram
+                leftLabel={handles[0]}
+                rightLabel={handles[1]}
+                leftOnly={result.uniqueTo[0].length}
+                shared={result.stats.intersectionCount}
+                rightOnly={result.uniqueTo[1].length}
+              />
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {result.stats.pairwise.map((pair) => (
+                  <Badge key={`${pair.a}-${pair.b}`} variant="secondary">
+                    {handles[pair.a]} ∩ {handles[pair.b]}: {pair.sharedCount} ({formatPercent(pair.jaccard)})
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <Tabs defaultValue="shared">
+              <TabsList className="flex flex-wrap h-auto">
+                <TabsTrigger value="shared">Shared ({result.stats.intersectionCount})</TabsTrigger>
+                {result.accounts.map((account, index) => (
+                  <TabsTrigger key={account.user.id_str} value={`only-${index}`}>
+                    Only {handles[index]} ({result.uniqueTo[index].length})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              <TabsContent value="shared">
+                <ProfileList profiles={result.intersection} emptyText="These accounts do not follow anyone in common." />
+              </TabsContent>
+              {result.accounts.map((account, index) => (
+                <TabsContent key={account.user.id_str} value={`only-${index}`}>
+                  <ProfileList profiles={result.uniqueTo[index]} emptyText={`Everyone ${handles[index]} follows is followed by another account here.`} />
+                </TabsContent>
+              ))}
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
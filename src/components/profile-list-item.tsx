@@ -0,0 +1,41 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import { Eye } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import type { XProfile } from '@/lib/socialdata';
+
+export function ProfileListItem({ profile, children }: { profile: XProfile; children?: ReactNode }) {
+  return (
+    <li className="flex items-start gap-3 p-3 bg-secondary rounded-md hover:bg-accent/90 transition-colors duration-150 group">
+      <Avatar>
+        {profile.avatarUrl && <AvatarImage src={profile.avatarUrl} alt={`Avatar of @${profile.handle}`} />}
+        <AvatarFallback>{profile.name.charAt(0).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <div className="min-w-0 flex-1">
+        <p className="font-medium text-secondary-foreground group-hover:text-accent-foreground truncate">
+          {profile.name}
+          <span className="ml-1 font-normal text-muted-foreground group-hover:text-accent-foreground">@{profile.handle}</span>
+        </p>
+        {profile.bio && (
+          <p className="mt-1 text-sm text-muted-foreground group-hover:text-accent-foreground line-clamp-2">{profile.bio}</p>
+        )}
+        <p className="mt-1 text-xs text-muted-foreground group-hover:text-accent-foreground">
+          {profile.followersCount.toLocaleString()} followers · {profile.followingCount.toLocaleString()} following
+        </p>
+        {children}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => window.open(`https://x.com/${profile.handle}`, '_blank')}
+        className="text-xs group-hover:border-accent-foreground group-hover:text-accent-foreground"
+        aria-label={`View X profile of @${profile.handle}`}
+      >
+        <Eye className="mr-1 h-3 w-3" />
+        View
+      </Button>
+    </li>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, type ReactNode } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+
+/** Renders `children` only for a signed-in user; everyone else is sent to /sign-in and back. */
+export function RequireAuth({ children }: { children: ReactNode }) {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.replace(`/sign-in?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [loading, user, router, pathname]);
+
+  if (!user) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center" aria-live="polite">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="sr-only">Checking your session...</span>
+      </div>
+    );
+  }
+  return <>{children}</>;
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { Loader2, Tags } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ProfileListItem } from '@/components/profile-list-item';
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import {
+  ACCOUNT_CATEGORIES,
+  ACCOUNT_CATEGORY_LABELS,
+  MAX_SEGMENT_IDS,
+  primaryCategory,
+  type AccountCategory,
+  type AccountClassification,
+  type SegmentsRequest,
+  type SegmentsResponse,
+} from '@/lib/segments';
+import type { XProfile } from '@/lib/socialdata';
+
+type CategoryFilter = AccountCategory | 'all';
+
+function ProfileList({ profiles, classifications }: { profiles: XProfile[]; classifications?: Map<string, AccountClassification> }) {
+  return (
+    <ul className="space-y-3">
+      {profiles.map((profile) => {
+        const classification = classifications?.get(profile.id_str);
+        return (
+          <ProfileListItem key={profile.id_str} profile={profile}>
+            {classification && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {classification.categories.map((score) => (
+                  <Badge key={score.category} variant="outline" className="text-xs font-normal">
+                    {ACCOUNT_CATEGORY_LABELS[score.category]} · {Math.round(score.confidence * 100)}%
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </ProfileListItem>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * The followings list of the results view, which can be categorized, then filtered and grouped
+ * by category. Keep it `disabled` while the list is still loading: accounts are only stored for
+ * categorizing once the whole list has arrived.
+ */
+export function SegmentedFollowingList({ followings, disabled = false }: { followings: XProfile[]; disabled?: boolean }) {
+  const [classifications, setClassifications] = useState<Map<string, AccountClassification> | null>(null);
+  const [filter, setFilter] = useState<CategoryFilter>('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const categorize = async () => {
+    setIsLoading(true);
+    try {
+      const body: SegmentsRequest = { ids: followings.slice(0, MAX_SEGMENT_IDS).map((profile) => profile.id_str) };
+      const response = await apiFetch('/api/segments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data: unknown = await response.json();
+      if (!response.ok) {
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        toast({ title: "Categorizing Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+      const result = data as SegmentsResponse;
+      setClassifications(new Map(result.classifications.map((classification) => [classification.id_str, classification])));
+      if (result.missingIds.length > 0) {
+        toast({ title: "Partly categorized", description: `${result.missingIds.length} account(s) could not be categorized. Run the lookup again to include them.` });
+      }
+    } catch (err: any) {
+      console.error('Client-side segments fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Filtering matches any assigned category; grouping uses each account's most confident one.
+  const groups = useMemo(() => {
+    if (!classifications) return null;
+    const counts = Object.fromEntries(ACCOUNT_CATEGORIES.map((category) => [category, 0])) as Record<AccountCategory, number>;
+    const byPrimary = new Map<AccountCategory | null, XProfile[]>();
+    for (const profile of followings) {
+      const classification = classifications?.get(profile.id_str);
+      classification?.categories.forEach((score) => { counts[score.category] += 1; });
+      if (filter !== 'all' && !classification?.categories.some((score) => score.category === filter)) continue;
+      const key = filter !== 'all' ? filter : classification ? primaryCategory(classification) : null;
+      byPrimary.set(key, [...(byPrimary.get(key) ?? []), profile]);
+    }
+    return { counts, byPrimary };
+  }, [classifications, followings, filter]);
+
+  return (
+    <div className="space-y-3">
+      {groups ? (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by category">
+          {(['all', ...ACCOUNT_CATEGORIES] as const).map((category) => (
+            <button key={category} type="button" onClick={() => setFilter(category)} aria-pressed={filter === category}>
+              <Badge variant={filter === category ? 'default' : 'outline'} className="cursor-pointer">
+                {category === 'all' ? `All (${followings.length})` : `${ACCOUNT_CATEGORY_LABELS[category]} (${groups.counts[category]})`}
+              </Badge>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={categorize} disabled={disabled || isLoading || followings.length === 0}>
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Tags className="mr-2 h-4 w-4" />}
+          Categorize
+        </Button>
+      )}
+
+      <ScrollArea className="h-[32rem] pr-3">
+        {groups && classifications ? (
+          <div className="space-y-4">
+            {[...ACCOUNT_CATEGORIES, null].filter((category) => groups.byPrimary.has(category)).map((category) => (
+              <section key={category ?? 'uncategorized'} className="space-y-2">
+                <h3 className="text-sm font-semibold text-muted-foreground">
+                  {category ? ACCOUNT_CATEGORY_LABELS[category] : 'Not categorized'} ({groups.byPrimary.get(category)!.length})
+                </h3>
+                <ProfileList profiles={groups.byPrimary.get(category)!} classifications={classifications} />
+              </section>
+            ))}
+            {groups.byPrimary.size === 0 && <p className="text-sm text-muted-foreground">No accounts in this category.</p>}
+          </div>
+        ) : (
+          <ProfileList profiles={followings} />
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, type FormEvent } from 'react';
+import { AlertCircle, Loader2, Sparkles } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ProfileListItem } from '@/components/profile-list-item';
+import { useToast } from "@/hooks/use-toast";
+import { encodeAccountRef, parseAccountInput } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import { MAX_SEMANTIC_QUERY_LENGTH, type SemanticSearchResponse } from '@/lib/semantic-search';
+
+export function SemanticSearch() {
+  const [query, setQuery] = useState('');
+  const [within, setWithin] = useState('');
+  const [withinError, setWithinError] = useState<string | null>(null);
+  const [result, setResult] = useState<SemanticSearchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!query.trim() || !within.trim()) return;
+    const withinRef = parseAccountInput(within);
+    setWithinError(withinRef.ok ? null : withinRef.error);
+    if (!withinRef.ok) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = `q=${encodeURIComponent(query.trim())}&within=${encodeAccountRef(withinRef.value)}`;
+      const response = await apiFetch(`/api/semantic-search?${params}`);
+      const data: unknown = await response.json();
+      if (!response.ok) {
+        if (isApiErrorBody(data) && data.code === 'INVALID_REQUEST' && data.details?.field === 'within') {
+          setWithinError(data.message);
+          return;
+        }
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: "Search Failed", description: displayError, variant: "destructive" });
+        return;
+      }
+      setResult(data as SemanticSearchResponse);
+    } catch (err: any) {
+      console.error('Client-side semantic search fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Search by Meaning</CardTitle>
+          <CardDescription>
+            Find accounts someone follows whose bios match a description, even without the same words: &quot;seed-stage VC&quot; also finds &quot;early investor&quot;. Look up their followings first.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              maxLength={MAX_SEMANTIC_QUERY_LENGTH}
+              placeholder="e.g., seed-stage VC focused on climate"
+              disabled={isLoading}
+              aria-label="Search"
+            />
+            <div className="space-y-1">
+              <Input
+                value={within}
+                onChange={(e) => {
+                  setWithin(e.target.value);
+                  setWithinError(null);
+                }}
+                placeholder="Accounts followed by… (e.g. alice)"
+                disabled={isLoading}
+                aria-label="Accounts followed by"
+                aria-invalid={Boolean(withinError)}
+              />
+              {withinError && <p className="text-sm font-medium text-destructive">{withinError}</p>}
+            </div>
+            <Button type="submit" className="w-full text-base py-3" disabled={isLoading || !query.trim() || !within.trim()}>
+              {isLoading ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Sparkles className="mr-2 h-5 w-5" />}
+              Search
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="shadow-lg rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <Card className="shadow-xl rounded-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">Closest matches for &quot;{result.query}&quot;</CardTitle>
+            <CardDescription>
+              Compared against {result.searchedCount.toLocaleString()} bios of accounts @{result.within.handle} follows.
+              {result.pendingCount > 0 && ` ${result.pendingCount.toLocaleString()} more are still being indexed; search again later to include them.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {result.results.length === 0 ? (
+              <p className="text-sm text-muted-foreground">None of the accounts @{result.within.handle} follows has a bio to compare yet.</p>
+            ) : (
+              <ScrollArea className="h-96 pr-3">
+                <ol className="space-y-3">
+                  {result.results.map(({ profile, score }) => (
+                    <ProfileListItem key={profile.id_str} profile={profile}>
+                      <Badge variant="secondary" className="mt-2 text-xs font-normal" title="Cosine similarity of the bio to your search">
+                        {Math.round(Math.max(score, 0) * 100)}% match
+                      </Badge>
+                    </ProfileListItem>
+                  ))}
+                </ol>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
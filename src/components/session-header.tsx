@@ -0,0 +1,43 @@
+"use client";
+
+import Link from 'next/link';
+import { BarChart3, LogIn, LogOut } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+
+export function SessionHeader() {
+  const { user, loading, signOut } = useAuth();
+
+  return (
+    <header className="flex h-14 items-center justify-between border-b px-4 sm:px-8">
+      <Link href="/" className="font-semibold text-primary">X Following Retriever</Link>
+      {!loading && (user ? (
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/usage">
+              <BarChart3 className="mr-1 h-4 w-4" />
+              Usage
+            </Link>
+          </Button>
+          <Avatar className="h-8 w-8">
+            {user.photoURL && <AvatarImage src={user.photoURL} alt="" />}
+            <AvatarFallback>{(user.displayName || user.email || '?').charAt(0).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <span className="hidden sm:inline text-sm text-muted-foreground">{user.displayName || user.email}</span>
+          <Button variant="ghost" size="sm" onClick={() => signOut()}>
+            <LogOut className="mr-1 h-4 w-4" />
+            Sign out
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/sign-in">
+            <LogIn className="mr-1 h-4 w-4" />
+            Sign in
+          </Link>
+        </Button>
+      ))}
+    </header>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useState, type FormEvent } from 'react';
+import { AlertCircle, Camera, History, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ProfileListItem } from '@/components/profile-list-item';
+import { useToast } from "@/hooks/use-toast";
+import { encodeAccountRef, parseAccountInput, type AccountRef } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import type {
+  SnapshotDiff,
+  SnapshotDiffEntry,
+  SnapshotDiffResponse,
+  SnapshotHistoryResponse,
+  SnapshotSummary,
+  TakeSnapshotResponse,
+} from '@/lib/snapshots';
+import type { XProfile } from '@/lib/socialdata';
+
+function DiffList({ entries, emptyText }: { entries: SnapshotDiffEntry[]; emptyText: string }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">{emptyText}</p>;
+  }
+  return (
+    <ScrollArea className="h-80 pr-3">
+      <ul className="space-y-3">
+        {entries.map((entry) => entry.profile ? (
+          <ProfileListItem key={entry.id_str} profile={entry.profile} />
+        ) : (
+          // Accounts never fetched with a profile only have their stable id.
+          <li key={entry.id_str} className="p-3 bg-secondary rounded-md text-sm text-muted-foreground">
+            Account ID {entry.id_str}
+          </li>
+        ))}
+      </ul>
+    </ScrollArea>
+  );
+}
+
+function ChangeBadges({ changes }: { changes: SnapshotSummary['changes'] }) {
+  if (!changes) return <Badge variant="outline">First snapshot</Badge>;
+  if (changes.added === 0 && changes.removed === 0) return <Badge variant="outline">No changes</Badge>;
+  return (
+    <>
+      {changes.added > 0 && <Badge variant="secondary">+{changes.added} followed</Badge>}
+      {changes.removed > 0 && <Badge variant="destructive">-{changes.removed} unfollowed</Badge>}
+    </>
+  );
+}
+
+export function SnapshotHistory() {
+  const [username, setUsername] = useState('');
+  const [fieldError, setFieldError] = useState<string | null>(null);
+  const [account, setAccount] = useState<{ ref: AccountRef; profile: XProfile } | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [pending, setPending] = useState<'history' | 'snapshot' | 'diff' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  /** Runs `request`; on an API error shows it and resolves to null. */
+  const callApi = async <T,>(request: () => Promise<Response>, failureTitle: string): Promise<T | null> => {
+    try {
+      const response = await request();
+      const data: unknown = await response.json();
+      if (!response.ok) {
+        if (isApiErrorBody(data) && data.code === 'INVALID_REQUEST' && data.details?.field === 'username') {
+          setFieldError(data.message);
+          return null;
+        }
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: failureTitle, description: displayError, variant: "destructive" });
+        return null;
+      }
+      return data as T;
+    } catch (err: any) {
+      console.error('Client-side snapshot fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+      return null;
+    }
+  };
+
+  const parseUsername = (): AccountRef | null => {
+    const parsed = parseAccountInput(username);
+    setFieldError(parsed.ok ? null : parsed.error);
+    return parsed.ok ? parsed.value : null;
+  };
+
+  const loadHistory = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const ref = parseUsername();
+    if (!ref) return;
+
+    setPending('history');
+    setError(null);
+    setDiff(null);
+    const data = await callApi<SnapshotHistoryResponse>(() => apiFetch(`/api/snapshots?username=${encodeAccountRef(ref)}`), "History Failed");
+    if (data) {
+      setAccount({ ref, profile: data.account });
+      setSnapshots(data.snapshots);
+    }
+    setPending(null);
+  };
+
+  const takeSnapshot = async () => {
+    const ref = parseUsername();
+    if (!ref) return;
+
+    setPending('snapshot');
+    setError(null);
+    const data = await callApi<TakeSnapshotResponse>(
+      () => apiFetch('/api/snapshots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim() }),
+      }),
+      "Snapshot Failed",
+    );
+    if (data) {
+      const isSameAccount = account?.profile.id_str === data.account.id_str;
+      setAccount({ ref, profile: data.account });
+      setSnapshots((previous) => [data.snapshot, ...(isSameAccount ? previous : [])]);
+      setDiff(data.diff);
+      toast({ title: "Snapshot saved", description: `Recorded ${data.snapshot.count.toLocaleString()} followings for @${data.account.handle}.` });
+    }
+    setPending(null);
+  };
+
+  const showDiff = async (snapshot: SnapshotSummary) => {
+    if (!account || !snapshot.changes) return;
+    setPending('diff');
+    setError(null);
+    const data = await callApi<SnapshotDiffResponse>(
+      () => apiFetch(`/api/snapshots/diff?username=${encodeAccountRef(account.ref)}&to=${encodeURIComponent(snapshot.id)}`),
+      "Diff Failed",
+    );
+    if (data) setDiff(data);
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Following History</CardTitle>
+          <CardDescription>
+            Snapshot an account&apos;s followings and see who it started or stopped following since.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={loadHistory} className="space-y-4">
+            <div className="space-y-1">
+              <Input
+                value={username}
+                onChange={(e) => {
+                  setUsername(e.target.value);
+                  setFieldError(null);
+                }}
+                placeholder="e.g., alice"
+                disabled={pending !== null}
+                aria-label="X username"
+                aria-invalid={Boolean(fieldError)}
+              />
+              {fieldError && <p className="text-sm font-medium text-destructive">{fieldError}</p>}
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="outline" className="flex-1" disabled={pending !== null || !username.trim()}>
+                {pending === 'history' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <History className="mr-2 h-4 w-4" />}
+                Show history
+              </Button>
+              <Button type="button" className="flex-1" onClick={takeSnapshot} disabled={pending !== null || !username.trim()}>
+                {pending === 'snapshot' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+                Take snapshot
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="shadow-lg rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {diff && (
+        <Card className="shadow-xl rounded-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">
+              Changes {new Date(diff.from.takenAt).toLocaleDateString()} → {new Date(diff.to.takenAt).toLocaleDateString()}
+            </CardTitle>
+            <CardDescription>
+              {diff.added.length} followed, {diff.removed.length} unfollowed.
+              {!diff.isComplete && ' One of these snapshots was truncated, so some unfollows may not be real.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="added">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="added">Followed ({diff.added.length})</TabsTrigger>
+                <TabsTrigger value="removed">Unfollowed ({diff.removed.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="added">
+                <DiffList entries={diff.added} emptyText="No new followings between these snapshots." />
+              </TabsContent>
+              <TabsContent value="removed">
+                <DiffList entries={diff.removed} emptyText="Nobody was unfollowed between these snapshots." />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+
+      {account && (
+        <Card className="shadow-xl rounded-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">Snapshots of @{account.profile.handle}</CardTitle>
+            <CardDescription>
+              {snapshots.length === 0
+                ? 'No snapshots yet. Take one now, then again later to see what changed.'
+                : 'Select a snapshot to see what changed since the one before it.'}
+            </CardDescription>
+          </CardHeader>
+          {snapshots.length > 0 && (
+            <CardContent>
+              <ul className="space-y-2">
+                {snapshots.map((snapshot) => (
+                  <li key={snapshot.id}>
+                    <button
+                      type="button"
+                      onClick={() => showDiff(snapshot)}
+                      disabled={pending !== null || !snapshot.changes}
+                      className="w-full flex flex-wrap items-center gap-2 p-3 bg-secondary rounded-md text-left hover:bg-accent/90 transition-colors duration-150 disabled:cursor-default disabled:hover:bg-secondary"
+                    >
+                      <span className="font-medium text-secondary-foreground">{new Date(snapshot.takenAt).toLocaleString()}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {snapshot.count.toLocaleString()} followings{!snapshot.isComplete && ' (truncated)'}
+                        {snapshot.trigger === 'scheduled' && ' · scheduled'}
+                      </span>
+                      <span className="ml-auto flex gap-1">
+                        <ChangeBadges changes={snapshot.changes} />
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
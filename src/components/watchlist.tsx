@@ -0,0 +1,256 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { AlertCircle, Bell, CheckCheck, Loader2, Plus, RefreshCw, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProfileListItem } from '@/components/profile-list-item';
+import { useToast } from "@/hooks/use-toast";
+import { parseAccountInput } from '@/lib/account-input';
+import { apiFetch } from '@/lib/api-client';
+import { describeApiError, isApiErrorBody } from '@/lib/api-errors';
+import {
+  WATCH_ROLES,
+  WATCH_ROLE_LABELS,
+  type AlertsResponse,
+  type WatchAlert,
+  type WatchlistEntry,
+  type WatchlistRefreshResponse,
+  type WatchlistResponse,
+  type WatchRole,
+} from '@/lib/watchlist';
+
+function alertText(alert: WatchAlert): string {
+  const subject = alert.subject ? `@${alert.subject.handle}` : `account ${alert.subjectId}`;
+  return alert.type === 'target_followed'
+    ? `@${alert.actorHandle} started following your target ${subject}`
+    : `@${alert.actorHandle} followed ${subject}`;
+}
+
+export function Watchlist() {
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<WatchRole>('watch');
+  const [fieldError, setFieldError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [feed, setFeed] = useState<AlertsResponse>({ alerts: [], unreadCount: 0 });
+  const [pending, setPending] = useState<'load' | 'add' | 'refresh' | 'read' | null>('load');
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  /** Runs `request`; on an API error shows it and resolves to null. */
+  const callApi = useCallback(async <T,>(request: () => Promise<Response>, failureTitle: string): Promise<T | null> => {
+    try {
+      const response = await request();
+      if (response.status === 204) return {} as T;
+      const data: unknown = await response.json();
+      if (!response.ok) {
+        if (isApiErrorBody(data) && data.code === 'INVALID_REQUEST' && data.details?.field === 'username') {
+          setFieldError(data.message);
+          return null;
+        }
+        const displayError = isApiErrorBody(data) ? describeApiError(data) : `An error occurred: ${response.statusText}`;
+        setError(displayError);
+        toast({ title: failureTitle, description: displayError, variant: "destructive" });
+        return null;
+      }
+      return data as T;
+    } catch (err: any) {
+      console.error('Client-side watchlist fetch error:', err);
+      const clientError = err.message || 'An unexpected error occurred. Please check your network connection and try again.';
+      setError(clientError);
+      toast({ title: "Fetch Error", description: clientError, variant: "destructive" });
+      return null;
+    }
+  }, [toast]);
+
+  const loadAll = useCallback(async () => {
+    const [watchlist, alerts] = await Promise.all([
+      callApi<WatchlistResponse>(() => apiFetch('/api/watchlist'), "Watchlist Failed"),
+      callApi<AlertsResponse>(() => apiFetch('/api/alerts'), "Alerts Failed"),
+    ]);
+    if (watchlist) setEntries(watchlist.entries);
+    if (alerts) setFeed(alerts);
+  }, [callApi]);
+
+  useEffect(() => {
+    loadAll().finally(() => setPending(null));
+  }, [loadAll]);
+
+  const addEntry = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = parseAccountInput(username);
+    setFieldError(parsed.ok ? null : parsed.error);
+    if (!parsed.ok) return;
+
+    setPending('add');
+    setError(null);
+    const entry = await callApi<WatchlistEntry>(
+      () => apiFetch('/api/watchlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), role }),
+      }),
+      "Could Not Add Account",
+    );
+    if (entry) {
+      setEntries((previous) => [entry, ...previous.filter((e) => e.accountId !== entry.accountId)]);
+      setUsername('');
+    }
+    setPending(null);
+  };
+
+  const removeEntry = async (entry: WatchlistEntry) => {
+    const removed = await callApi<object>(() => apiFetch(`/api/watchlist?accountId=${encodeURIComponent(entry.accountId)}`, { method: 'DELETE' }), "Could Not Remove Account");
+    if (removed) setEntries((previous) => previous.filter((e) => e.accountId !== entry.accountId));
+  };
+
+  const refresh = async () => {
+    setPending('refresh');
+    setError(null);
+    const result = await callApi<WatchlistRefreshResponse>(() => apiFetch('/api/watchlist/refresh', { method: 'POST' }), "Refresh Failed");
+    if (result) {
+      toast({
+        title: "Watchlist refreshed",
+        description: `${result.summary.alertCount} new alert(s)${result.summary.failed ? `, ${result.summary.failed} account(s) failed` : ''}.`,
+      });
+      await loadAll();
+    }
+    setPending(null);
+  };
+
+  const markAllRead = async () => {
+    setPending('read');
+    const result = await callApi<{ unreadCount: number }>(
+      () => apiFetch('/api/alerts/read', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' }),
+      "Could Not Update Alerts",
+    );
+    if (result) {
+      setFeed((previous) => ({ alerts: previous.alerts.map((alert) => ({ ...alert, read: true })), unreadCount: result.unreadCount }));
+    }
+    setPending(null);
+  };
+
+  const refreshableCount = entries.filter((entry) => entry.role !== 'target').length;
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Watchlist</CardTitle>
+          <CardDescription>
+            Get alerts when watched accounts follow someone new, or when your network starts following a target.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={addEntry} className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={username}
+                onChange={(e) => {
+                  setUsername(e.target.value);
+                  setFieldError(null);
+                }}
+                placeholder="e.g., carla_vc"
+                disabled={pending === 'add'}
+                aria-label="X username"
+                aria-invalid={Boolean(fieldError)}
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as WatchRole)}>
+                <SelectTrigger className="w-44" aria-label="Role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WATCH_ROLES.map((value) => (
+                    <SelectItem key={value} value={value}>{WATCH_ROLE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" size="icon" disabled={pending !== null || !username.trim()} aria-label="Add to watchlist">
+                {pending === 'add' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+            {fieldError && <p className="text-sm font-medium text-destructive">{fieldError}</p>}
+          </form>
+
+          {entries.length > 0 ? (
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <li key={entry.accountId} className="flex items-center gap-2 p-3 bg-secondary rounded-md">
+                  <span className="font-medium text-secondary-foreground">@{entry.handle}</span>
+                  <Badge variant={entry.role === 'target' ? 'default' : 'secondary'}>{WATCH_ROLE_LABELS[entry.role]}</Badge>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {entry.lastCheckedAt ? `Checked ${new Date(entry.lastCheckedAt).toLocaleString()}` : entry.role === 'target' ? '' : 'Not checked yet'}
+                  </span>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeEntry(entry)} aria-label={`Remove @${entry.handle}`}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            pending !== 'load' && <p className="text-sm text-muted-foreground">Nobody on the watchlist yet.</p>
+          )}
+
+          <Button type="button" variant="outline" className="w-full" onClick={refresh} disabled={pending !== null || refreshableCount === 0}>
+            {pending === 'refresh' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Refresh now
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive" className="shadow-lg rounded-lg">
+          <AlertCircle className="h-5 w-5" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="shadow-xl rounded-lg">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Alerts
+              {feed.unreadCount > 0 && <Badge>{feed.unreadCount} new</Badge>}
+            </CardTitle>
+            <CardDescription>New follows found by the latest refreshes, newest first.</CardDescription>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={markAllRead} disabled={pending !== null || feed.unreadCount === 0}>
+            <CheckCheck className="mr-1 h-4 w-4" />
+            Mark all read
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {feed.alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alerts yet. They appear after a refresh finds new follows.</p>
+          ) : (
+            <ScrollArea className="h-96 pr-3">
+              <ul className="space-y-3">
+                {feed.alerts.map((alert) => (
+                  <li key={alert.id} className={alert.read ? 'opacity-70' : undefined}>
+                    <p className="mb-1 text-sm">
+                      {!alert.read && <span className="mr-2 inline-block h-2 w-2 rounded-full bg-primary" aria-label="Unread" />}
+                      <span className="font-medium">{alertText(alert)}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">{new Date(alert.createdAt).toLocaleString()}</span>
+                    </p>
+                    {alert.subject && (
+                      <ul>
+                        <ProfileListItem profile={alert.subject} />
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
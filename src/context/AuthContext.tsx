@@ -1,4 +1,100 @@
+"use client";
 
-// This file is no longer needed and can be deleted.
-// To fully remove it, you would delete the file from your project's src/context/ directory.
-// For the purpose of this multi-file change, providing empty content effectively removes its prior functionality.
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  onIdTokenChanged,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+  signOut as firebaseSignOut,
+  type User,
+} from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+
+// The email must be supplied again when the link is opened; remembering it saves the user
+// retyping it when they open the link in the same browser.
+const EMAIL_FOR_SIGN_IN_KEY = 'emailForSignIn';
+
+interface AuthContextValue {
+  user: User | null;
+  /** True until Firebase has restored (or ruled out) a persisted session. */
+  loading: boolean;
+  signInWithGoogle: () => Promise<void>;
+  /** Emails a sign-in link that returns to `returnPath` on this origin. */
+  sendEmailLink: (email: string, returnPath: string) => Promise<void>;
+  isEmailLink: (url: string) => boolean;
+  /** The email saved by `sendEmailLink` in this browser, if any. */
+  pendingEmail: () => string | null;
+  completeEmailLink: (email: string, url: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // onIdTokenChanged also fires on token refresh, keeping `user` current for API calls.
+    return onIdTokenChanged(auth, (nextUser) => {
+      setUser(nextUser);
+      setLoading(false);
+    });
+  }, []);
+
+  const signInWithGoogle = useCallback(async () => {
+    await signInWithPopup(auth, new GoogleAuthProvider());
+  }, []);
+
+  const sendEmailLink = useCallback(async (email: string, returnPath: string) => {
+    await sendSignInLinkToEmail(auth, email, {
+      url: new URL(returnPath, window.location.origin).toString(),
+      handleCodeInApp: true,
+    });
+    window.localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email);
+  }, []);
+
+  const completeEmailLink = useCallback(async (email: string, url: string) => {
+    await signInWithEmailLink(auth, email, url);
+    window.localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user,
+    loading,
+    signInWithGoogle,
+    sendEmailLink,
+    isEmailLink: (url) => isSignInWithEmailLink(auth, url),
+    pendingEmail: () => window.localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY),
+    completeEmailLink,
+    signOut: () => firebaseSignOut(auth),
+  }), [user, loading, signInWithGoogle, sendEmailLink, completeEmailLink]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider.');
+  }
+  return context;
+}
+
+const AUTH_ERROR_COPY: Record<string, string> = {
+  'auth/popup-closed-by-user': 'The sign-in window was closed before finishing.',
+  'auth/popup-blocked': 'Your browser blocked the sign-in window. Allow pop-ups for this site and try again.',
+  'auth/invalid-email': 'That email address is not valid.',
+  'auth/invalid-action-code': 'This sign-in link is invalid or has already been used. Request a new one.',
+  'auth/expired-action-code': 'This sign-in link has expired. Request a new one.',
+  'auth/network-request-failed': 'Could not reach the sign-in service. Check your connection and try again.',
+};
+
+/** User-facing copy for a Firebase Auth error. */
+export function describeAuthError(error: unknown): string {
+  const code = (error as { code?: string } | null)?.code;
+  return (code && AUTH_ERROR_COPY[code]) || 'Sign-in failed. Please try again.';
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+function secondsUntil(deadline: number | null): number {
+  return deadline === null ? 0 : Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+/** Whole seconds left until `deadline` (epoch ms), ticking once a second; 0 once it has passed or when null. */
+export function useCountdown(deadline: number | null): number {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(deadline));
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(deadline));
+    if (deadline === null) return;
+    const timer = window.setInterval(() => {
+      const next = secondsUntil(deadline);
+      setSecondsLeft(next);
+      if (next === 0) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [deadline]);
+
+  return secondsLeft;
+}
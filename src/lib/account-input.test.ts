@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { accountRefCacheKey, encodeAccountRef, parseAccountInput, type AccountInputResult } from './account-input';
+
+function valueOf(result: AccountInputResult) {
+  if (!result.ok) throw new Error(`Expected a valid account, got: ${result.error}`);
+  return result.value;
+}
+
+describe('parseAccountInput', () => {
+  it('accepts handles with or without @ and surrounding whitespace', () => {
+    expect(valueOf(parseAccountInput('alice'))).toEqual({ kind: 'handle', handle: 'alice' });
+    expect(valueOf(parseAccountInput('  @Alice_01 '))).toEqual({ kind: 'handle', handle: 'Alice_01' });
+  });
+
+  it('reads the handle from x.com and twitter.com profile links', () => {
+    expect(valueOf(parseAccountInput('https://x.com/alice/status/1'))).toEqual({ kind: 'handle', handle: 'alice' });
+    expect(valueOf(parseAccountInput('www.twitter.com/@bob'))).toEqual({ kind: 'handle', handle: 'bob' });
+    expect(valueOf(parseAccountInput('https://x.com/intent/user?user_id=42'))).toEqual({ kind: 'id', id: '42' });
+  });
+
+  it('treats id: prefixes and 16+ digit numbers as ids, but short numbers as handles', () => {
+    expect(valueOf(parseAccountInput('id:12'))).toEqual({ kind: 'id', id: '12' });
+    expect(valueOf(parseAccountInput('1234567890123456'))).toEqual({ kind: 'id', id: '1234567890123456' });
+    expect(valueOf(parseAccountInput('12345'))).toEqual({ kind: 'handle', handle: '12345' });
+  });
+
+  it('rejects empty input, bad characters, long handles and app routes', () => {
+    expect(parseAccountInput('   ').ok).toBe(false);
+    expect(parseAccountInput('al ice').ok).toBe(false);
+    expect(parseAccountInput('a'.repeat(16)).ok).toBe(false);
+    expect(parseAccountInput('https://x.com/home').ok).toBe(false);
+    expect(parseAccountInput('https://example.com/alice').ok).toBe(false);
+  });
+});
+
+describe('encodeAccountRef', () => {
+  it('round-trips through parseAccountInput without confusing numeric handles and ids', () => {
+    for (const ref of [{ kind: 'handle', handle: '12345' }, { kind: 'id', id: '12345' }] as const) {
+      expect(valueOf(parseAccountInput(decodeURIComponent(encodeAccountRef(ref))))).toEqual(ref);
+    }
+  });
+});
+
+describe('accountRefCacheKey', () => {
+  it('keeps a numeric handle and the same id apart', () => {
+    expect(accountRefCacheKey({ kind: 'handle', handle: '12345' })).not.toBe(accountRefCacheKey({ kind: 'id', id: '12345' }));
+  });
+
+  it('ignores handle case', () => {
+    expect(accountRefCacheKey({ kind: 'handle', handle: 'Alice' })).toBe(accountRefCacheKey({ kind: 'handle', handle: 'alice' }));
+  });
+});
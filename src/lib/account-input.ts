@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+// Shared by the API routes and the client: keep this file free of server-only imports.
+
+export type AccountRef =
+  | { kind: 'handle'; handle: string }
+  | { kind: 'id'; id: string };
+
+/** X handles: 1-15 letters, digits or underscores. */
+const HANDLE_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+/** Snowflake-era ids are 16+ digits, which no handle can be; shorter ids need the `id:` prefix. */
+const BARE_ID_PATTERN = /^\d{16,20}$/;
+const PREFIXED_ID_PATTERN = /^id:(\d{1,20})$/i;
+const PROFILE_HOSTS = new Set(['x.com', 'twitter.com', 'mobile.twitter.com', 'mobile.x.com']);
+/** First path segments on x.com that are app routes, not profiles. */
+const RESERVED_PATHS = new Set([
+  'home', 'explore', 'search', 'notifications', 'messages', 'settings', 'i', 'intent', 'share', 'compose', 'login', 'signup', 'tos', 'privacy',
+]);
+
+export type AccountInputResult =
+  | { ok: true; value: AccountRef }
+  | { ok: false; error: string };
+
+function parseProfileUrl(input: string): AccountInputResult | null {
+  const withScheme = /^https?:\/\//i.test(input) ? input : `https://${input}`;
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  if (!PROFILE_HOSTS.has(host)) return null;
+
+  // x.com/intent/user?user_id=123 is the one app route that names an account.
+  const intentUserId = url.searchParams.get('user_id');
+  if (url.pathname.startsWith('/intent/user') && intentUserId && /^\d{1,20}$/.test(intentUserId)) {
+    return { ok: true, value: { kind: 'id', id: intentUserId } };
+  }
+
+  const [firstSegment] = url.pathname.split('/').filter(Boolean);
+  if (!firstSegment || RESERVED_PATHS.has(firstSegment.toLowerCase())) {
+    return { ok: false, error: 'That link does not point to an X profile.' };
+  }
+  return parseHandle(firstSegment.replace(/^@/, ''));
+}
+
+function parseHandle(handle: string): AccountInputResult {
+  if (HANDLE_PATTERN.test(handle)) {
+    return { ok: true, value: { kind: 'handle', handle } };
+  }
+  if (handle.length > 15) {
+    return { ok: false, error: 'X usernames are at most 15 characters.' };
+  }
+  return { ok: false, error: 'X usernames can only contain letters, numbers and underscores.' };
+}
+
+/**
+ * Accepts `handle`, `@handle`, x.com/twitter.com profile URLs, `id:<digits>` and bare
+ * 16+ digit account ids.
+ */
+export function parseAccountInput(raw: string): AccountInputResult {
+  const input = raw.trim();
+  if (!input) {
+    return { ok: false, error: 'Please enter an X username.' };
+  }
+
+  const prefixedId = PREFIXED_ID_PATTERN.exec(input);
+  if (prefixedId) {
+    return { ok: true, value: { kind: 'id', id: prefixedId[1] } };
+  }
+  if (BARE_ID_PATTERN.test(input)) {
+    return { ok: true, value: { kind: 'id', id: input } };
+  }
+  if (input.includes('/') || input.includes('.')) {
+    return parseProfileUrl(input) ?? { ok: false, error: 'Enter a username or an x.com / twitter.com profile link.' };
+  }
+  return parseHandle(input.replace(/^@/, ''));
+}
+
+/** Cache key for a lookup; the kind is part of it, so handle "123" and id 123 never share an entry. */
+export function accountRefCacheKey(ref: AccountRef): string {
+  return ref.kind === 'handle' ? `handle:${ref.handle.toLowerCase()}` : `id:${ref.id}`;
+}
+
+/** Query-string value for an account, URL-encoded and unambiguous when parsed again. */
+export function encodeAccountRef(ref: AccountRef): string {
+  return encodeURIComponent(ref.kind === 'handle' ? ref.handle : `id:${ref.id}`);
+}
+
+export function formatAccountRef(ref: AccountRef): string {
+  return ref.kind === 'handle' ? `@${ref.handle}` : `account #${ref.id}`;
+}
+
+/**
+ * Zod field that validates with `parseAccountInput` but keeps the raw string, for forms
+ * whose resolver needs input and output types to match.
+ */
+export const accountInputFieldSchema = z.string().superRefine((value, ctx) => {
+  const result = parseAccountInput(value);
+  if (!result.ok) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+  }
+});
+
+/** Zod field that validates with `parseAccountInput` and transforms into an AccountRef. */
+export const accountInputSchema = z.string().transform((value, ctx) => {
+  const result = parseAccountInput(value);
+  if (!result.ok) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+    return z.NEVER;
+  }
+  return result.value;
+});
@@ -0,0 +1,15 @@
+// Client-side fetch for our own API routes: keep this file free of server-only imports.
+import { auth } from '@/lib/firebase';
+
+/**
+ * `fetch` with the signed-in user's Firebase ID token attached as a bearer token. The SDK
+ * caches the token and refreshes it shortly before it expires.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = await auth.currentUser?.getIdToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return fetch(input, { ...init, headers });
+}
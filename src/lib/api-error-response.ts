@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { API_ERROR_RETRYABLE, API_ERROR_STATUS, type ApiErrorBody, type ApiErrorCode } from '@/lib/api-errors';
+import { ProviderConfigError } from '@/lib/follow-graph';
+import { RateLimitExceededError } from '@/lib/rate-limit';
+import { SocialDataApiError, SocialDataParseError, SocialDataRateLimitError } from '@/lib/socialdata';
+import { QuotaExceededError } from '@/lib/usage-store';
+
+/** Error raised inside route handlers that already knows its API error code. */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly details?: ApiErrorBody['details'];
+
+  constructor(code: ApiErrorCode, message: string, details?: ApiErrorBody['details']) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function apiErrorResponse(
+  code: ApiErrorCode,
+  message: string,
+  details?: ApiErrorBody['details'],
+  headers?: HeadersInit,
+) {
+  const body: ApiErrorBody = { code, message, retryable: API_ERROR_RETRYABLE[code], ...(details ? { details } : {}) };
+  return NextResponse.json(body, { status: API_ERROR_STATUS[code], headers });
+}
+
+/** Maps anything thrown by the provider/client layers to an ApiError. */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof ProviderConfigError) {
+    return new ApiError('CONFIG_MISSING', error.message);
+  }
+  if (error instanceof QuotaExceededError) {
+    const { scope, period, used, limit, resetsAt } = error.quota;
+    return new ApiError('QUOTA_EXCEEDED', error.message, {
+      plan: error.plan,
+      scope,
+      period,
+      used,
+      limit,
+      resetsAt,
+      retryAfterSeconds: Math.max(1, Math.ceil((Date.parse(resetsAt) - Date.now()) / 1000)),
+    });
+  }
+  if (error instanceof RateLimitExceededError) {
+    const { limit, retryAfterSeconds } = error.decision;
+    return new ApiError('RATE_LIMITED', error.message, { scope: error.scope, limit, retryAfterSeconds });
+  }
+  if (error instanceof SocialDataRateLimitError) {
+    const retryAfterSeconds = error.retryAfterSeconds ?? 60;
+    return new ApiError('RATE_LIMITED', `The data service is rate limiting requests. Please retry in ${retryAfterSeconds} seconds.`, { retryAfterSeconds });
+  }
+  if (error instanceof SocialDataApiError) {
+    const details = { upstreamStatus: error.status, upstream: error.details };
+    if (error.status === 401 || error.status === 403) {
+      return new ApiError('UPSTREAM_UNAUTHORIZED', error.message, details);
+    }
+    if (error.status === 404) {
+      return new ApiError('USER_NOT_FOUND', error.message, details);
+    }
+    if (error.status === 504) {
+      return new ApiError('UPSTREAM_TIMEOUT', error.message, details);
+    }
+    return new ApiError('UPSTREAM_ERROR', error.message, details);
+  }
+  if (error instanceof SocialDataParseError) {
+    return new ApiError('UPSTREAM_BAD_SHAPE', `Upstream API response for ${error.resource} has unexpected structure.`, {
+      issues: error.issues.slice(0, 5),
+      receivedDataPreview: error.receivedDataPreview,
+    });
+  }
+  const unknownError = error as { message?: string; name?: string } | undefined;
+  return new ApiError('INTERNAL_ERROR', unknownError?.message || 'An unexpected internal error occurred.', { type: unknownError?.name || 'Error' });
+}
+
+/** The JSON envelope for `error`, for responses that embed errors (batch items, stream events). */
+export function toApiErrorBody(error: unknown): ApiErrorBody {
+  const apiError = toApiError(error);
+  return {
+    code: apiError.code,
+    message: apiError.message,
+    retryable: API_ERROR_RETRYABLE[apiError.code],
+    ...(apiError.details ? { details: apiError.details } : {}),
+  };
+}
+
+export function toApiErrorResponse(error: unknown) {
+  const apiError = toApiError(error);
+  if (apiError.code === 'INTERNAL_ERROR') {
+    console.error('Unhandled error in API route:', error);
+  }
+  const retryAfterSeconds = apiError.details?.retryAfterSeconds;
+  const headers = typeof retryAfterSeconds === 'number' ? { 'Retry-After': String(retryAfterSeconds) } : undefined;
+  return apiErrorResponse(apiError.code, apiError.message, apiError.details, headers);
+}
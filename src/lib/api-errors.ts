@@ -0,0 +1,115 @@
+// Shared between the API routes and the client: keep this file free of server-only imports.
+
+export const API_ERROR_CODES = [
+  'INVALID_REQUEST',
+  'UNAUTHENTICATED',
+  'NOT_FOUND',
+  'USER_NOT_FOUND',
+  'PROTECTED_ACCOUNT',
+  'RATE_LIMITED',
+  'QUOTA_EXCEEDED',
+  'UPSTREAM_BAD_SHAPE',
+  'UPSTREAM_UNAUTHORIZED',
+  'UPSTREAM_TIMEOUT',
+  'UPSTREAM_ERROR',
+  'AI_UNAVAILABLE',
+  'CONFIG_MISSING',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/** Body of every non-2xx response from our API routes. */
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  retryable: boolean;
+  details?: { retryAfterSeconds?: number; [key: string]: unknown };
+}
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHENTICATED: 401,
+  NOT_FOUND: 404,
+  USER_NOT_FOUND: 404,
+  PROTECTED_ACCOUNT: 403,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  UPSTREAM_BAD_SHAPE: 502,
+  UPSTREAM_UNAUTHORIZED: 502,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  AI_UNAVAILABLE: 503,
+  CONFIG_MISSING: 500,
+  INTERNAL_ERROR: 503,
+};
+
+export const API_ERROR_RETRYABLE: Record<ApiErrorCode, boolean> = {
+  INVALID_REQUEST: false,
+  UNAUTHENTICATED: false,
+  NOT_FOUND: false,
+  USER_NOT_FOUND: false,
+  PROTECTED_ACCOUNT: false,
+  RATE_LIMITED: true,
+  QUOTA_EXCEEDED: false,
+  UPSTREAM_BAD_SHAPE: false,
+  UPSTREAM_UNAUTHORIZED: false,
+  UPSTREAM_TIMEOUT: true,
+  UPSTREAM_ERROR: true,
+  AI_UNAVAILABLE: true,
+  CONFIG_MISSING: false,
+  INTERNAL_ERROR: true,
+};
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ApiErrorBody).message === 'string' &&
+    (API_ERROR_CODES as readonly string[]).includes((value as ApiErrorBody).code)
+  );
+}
+
+interface ErrorCopyContext {
+  /** How to name the account in the copy, as `formatAccountRef` writes it. */
+  account?: string;
+}
+
+const ERROR_COPY: Record<ApiErrorCode, (error: ApiErrorBody, context: ErrorCopyContext) => string> = {
+  INVALID_REQUEST: (error) => error.message,
+  UNAUTHENTICATED: () => 'Please sign in to continue.',
+  NOT_FOUND: (error) => error.message,
+  USER_NOT_FOUND: (_, { account }) =>
+    account ? `${account} was not found. Please check the username.` : 'That user could not be found.',
+  PROTECTED_ACCOUNT: (_, { account }) =>
+    `${account ?? 'This account'} is protected, so its follow lists are not publicly available.`,
+  RATE_LIMITED: (error) => {
+    const seconds = error.details?.retryAfterSeconds;
+    // `scope` is set when our own limiter refused the request rather than the data service.
+    const cause = error.details?.scope ? 'You are sending requests too quickly' : 'Too many requests right now';
+    return typeof seconds === 'number' && seconds > 0
+      ? `${cause}. Please retry in ${seconds} seconds.`
+      : `${cause}. Please try again shortly.`;
+  },
+  QUOTA_EXCEEDED: (error) => {
+    const period = error.details?.period === 'monthly' ? 'monthly' : 'daily';
+    const resetsAt = typeof error.details?.resetsAt === 'string' ? new Date(error.details.resetsAt) : null;
+    const subject = error.details?.scope === 'workspace' ? 'Your workspace has used its' : 'You have used your';
+    return `${subject} ${period} lookup quota${resetsAt ? `. It resets ${resetsAt.toLocaleString()}` : ''}. Upgrade your plan for more.`;
+  },
+  UPSTREAM_BAD_SHAPE: () => 'The data service returned data in an unexpected format. Please try again later.',
+  UPSTREAM_UNAUTHORIZED: () => 'Access to the data service is unauthorized. This might be an API key issue on the server.',
+  UPSTREAM_TIMEOUT: () => 'The data service took too long to respond. Please try again.',
+  UPSTREAM_ERROR: (_, { account }) =>
+    `Could not retrieve data${account ? ` for ${account}` : ''} because of a temporary issue with the data service. Please try again.`,
+  AI_UNAVAILABLE: () => 'The AI service could not complete this request. Please try again shortly.',
+  CONFIG_MISSING: () => 'The server is not configured correctly to access the data service.',
+  INTERNAL_ERROR: () => 'Something went wrong on our side. Please try again.',
+};
+
+/** User-facing copy for an error envelope, keyed off its code rather than the server message. */
+export function describeApiError(error: ApiErrorBody, context: ErrorCopyContext = {}): string {
+  // Multi-account routes name the failing account in details when the caller cannot know it.
+  const account = context.account ?? (typeof error.details?.account === 'string' ? error.details.account : undefined);
+  return ERROR_COPY[error.code](error, { ...context, account });
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+import { ApiError, apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { getAdminAuth } from '@/lib/firebase-admin';
+import { clientIp, rateLimitHeaders, RateLimitExceededError, takeRateLimitToken } from '@/lib/rate-limit';
+import { getRequestContext, runWithRequestContext, type RequestContext } from '@/lib/request-context';
+import { PLAN_TIERS, type PlanTier } from '@/lib/usage';
+
+const BEARER_PREFIX = 'Bearer ';
+
+/** Uid recorded for scheduler calls authenticated with CRON_SECRET. */
+export const SCHEDULER_UID = 'scheduler';
+
+/**
+ * For routes only a scheduler may call (with `allowScheduler`, signed-in users get through
+ * `withAuth` too): throws an UNAUTHENTICATED ApiError unless the request sent CRON_SECRET.
+ */
+export function assertSchedulerRequest(): void {
+  if (getRequestContext()?.uid !== SCHEDULER_UID) {
+    throw new ApiError('UNAUTHENTICATED', 'A valid scheduler secret is required.', { reason: 'scheduler_only' });
+  }
+}
+
+/** Verifies the request's Firebase ID token, throwing an UNAUTHENTICATED ApiError otherwise. */
+export async function authenticateRequest(request: NextRequest): Promise<RequestContext> {
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith(BEARER_PREFIX)) {
+    throw new ApiError('UNAUTHENTICATED', 'Sign in required: send a Firebase ID token as "Authorization: Bearer <token>".', { reason: 'missing_token' });
+  }
+
+  const adminAuth = getAdminAuth();
+  try {
+    const decoded = await adminAuth.verifyIdToken(header.slice(BEARER_PREFIX.length).trim());
+    // Custom claims are set server-side (Admin SDK), so users cannot pick their own plan.
+    const plan = PLAN_TIERS.includes(decoded.plan) ? (decoded.plan as PlanTier) : 'free';
+    const workspaceId = typeof decoded.workspaceId === 'string' && decoded.workspaceId ? decoded.workspaceId : decoded.uid;
+    return { uid: decoded.uid, email: decoded.email ?? null, workspaceId, plan, requestId: randomUUID() };
+  } catch (error) {
+    const code = (error as { code?: string })?.code;
+    // Anything but an auth/* error means verification itself failed (e.g. no project id).
+    if (!code?.startsWith('auth/')) {
+      console.error(`Could not verify ID tokens for ${request.nextUrl.pathname}:`, (error as Error)?.message);
+      throw error;
+    }
+    console.warn(`Rejected ID token for ${request.nextUrl.pathname}: ${code}`);
+    const expired = code === 'auth/id-token-expired';
+    throw new ApiError('UNAUTHENTICATED', expired ? 'Your session has expired. Please sign in again.' : 'The ID token is invalid.', {
+      reason: expired ? 'expired_token' : 'invalid_token',
+    });
+  }
+}
+
+/** Copies `headers` onto `response`, which route handlers always create themselves (so it is mutable). */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * Wraps a route handler so it only runs for a signed-in user, with that user available via
+ * `getRequestContext()`. With `allowScheduler`, a configured CRON_SECRET is accepted as well.
+ * Every request is also rate limited, per IP before authentication and per uid after it.
+ */
+export function withAuth<Args extends unknown[]>(
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>,
+  { allowScheduler = false }: { allowScheduler?: boolean } = {},
+) {
+  return async (request: NextRequest, ...args: Args): Promise<Response> => {
+    const ipLimit = await takeRateLimitToken('ip', clientIp(request));
+    if (ipLimit && !ipLimit.allowed) {
+      return withHeaders(toApiErrorResponse(new RateLimitExceededError('ip', ipLimit)), rateLimitHeaders(ipLimit));
+    }
+
+    let context: RequestContext;
+    const cronSecret = process.env.CRON_SECRET;
+    if (allowScheduler && cronSecret && request.headers.get('authorization') === `${BEARER_PREFIX}${cronSecret}`) {
+      context = { uid: SCHEDULER_UID, email: null, workspaceId: SCHEDULER_UID, plan: 'internal', requestId: randomUUID() };
+    } else {
+      try {
+        context = await authenticateRequest(request);
+      } catch (error) {
+        if (error instanceof ApiError) {
+          return apiErrorResponse(error.code, error.message, error.details, { 'WWW-Authenticate': 'Bearer', ...rateLimitHeaders(ipLimit) });
+        }
+        return withHeaders(toApiErrorResponse(error), rateLimitHeaders(ipLimit));
+      }
+    }
+
+    // Scheduler jobs are trusted and bounded by their own schedule.
+    const userLimit = context.uid === SCHEDULER_UID ? null : await takeRateLimitToken('user', context.uid);
+    if (userLimit && !userLimit.allowed) {
+      return withHeaders(toApiErrorResponse(new RateLimitExceededError('user', userLimit)), rateLimitHeaders(ipLimit, userLimit));
+    }
+
+    console.log(`${request.method} ${request.nextUrl.pathname} by uid ${context.uid} (request ${context.requestId})`);
+    const response = await runWithRequestContext(context, () => handler(request, ...args));
+    return withHeaders(response, rateLimitHeaders(ipLimit, userLimit));
+  };
+}
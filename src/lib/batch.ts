@@ -0,0 +1,37 @@
+// Shared by the batch route and the client: keep this file free of server-only imports.
+import type { ApiErrorBody } from '@/lib/api-errors';
+import type { XProfile } from '@/lib/socialdata';
+
+export const MAX_BATCH_SIZE = 200;
+
+export type BatchItemResult =
+  | {
+      input: string;
+      ok: true;
+      followings: string[];
+      profiles?: XProfile[];
+      totalCount: number;
+      reportedCount: number | null;
+      isComplete: boolean;
+      pagesFetched: number;
+      nextCursor: string | null;
+      fetchedAt: string;
+    }
+  | { input: string; ok: false; error: ApiErrorBody };
+
+export interface BatchResponse {
+  results: BatchItemResult[];
+  summary: { requested: number; succeeded: number; failed: number };
+}
+
+/**
+ * Splits pasted text into handles: one per line, comma/semicolon/tab separated (CSV rows
+ * work as long as the handle is a cell), blank cells dropped. A `username`/`handle`
+ * header cell is ignored.
+ */
+export function splitBatchInput(text: string): string[] {
+  return text
+    .split(/[\r\n,;\t]+/)
+    .map((cell) => cell.trim().replace(/^"(.*)"$/, '$1').trim())
+    .filter((cell) => cell && !/^(user(name)?|handle|screen_name)$/i.test(cell));
+}
@@ -0,0 +1,39 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import type { CacheEntry, CacheStore } from './types';
+
+const CACHE_COLLECTION = 'socialdataCache';
+
+/**
+ * Shares cached upstream responses across server instances. Payloads are stored as JSON
+ * strings so arbitrary shapes (nested arrays, undefined fields) round-trip unchanged.
+ * Firestore caps documents at 1 MiB, so very large follow lists may fail to cache; that
+ * is logged and otherwise ignored.
+ */
+export class FirestoreCacheStore implements CacheStore {
+  constructor(private readonly db: Firestore) {}
+
+  private ref(key: string) {
+    // Document IDs cannot contain '/'.
+    return this.db.collection(CACHE_COLLECTION).doc(encodeURIComponent(key));
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const snapshot = await this.ref(key).get();
+    if (!snapshot.exists) return null;
+    const data = snapshot.data() as { payload: string; fetchedAt: number; expiresAt: number };
+    if (data.expiresAt <= Date.now()) return null;
+    return { value: JSON.parse(data.payload) as T, fetchedAt: data.fetchedAt, expiresAt: data.expiresAt };
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.ref(key).set({
+      payload: JSON.stringify(entry.value),
+      fetchedAt: entry.fetchedAt,
+      expiresAt: entry.expiresAt,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ref(key).delete();
+  }
+}
@@ -0,0 +1,87 @@
+import { processSingleton } from '@/lib/process-singleton';
+import { MemoryCacheStore } from './memory-store';
+import type { CachedResult, CacheStore } from './types';
+
+export { MemoryCacheStore } from './memory-store';
+export type { CachedResult, CacheEntry, CacheStatus, CacheStore } from './types';
+
+export type CacheResource = 'user' | 'followings' | 'followers' | 'insights' | 'classifications';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Profiles change rarely; follow lists are what users come back to refresh. */
+export const CACHE_TTLS_MS: Record<CacheResource, number> = {
+  user: 60 * MINUTE_MS,
+  followings: 15 * MINUTE_MS,
+  followers: 15 * MINUTE_MS,
+  // Model output drifts little as followings change, and every generation costs tokens.
+  insights: 24 * 60 * MINUTE_MS,
+  // Keyed per account; what someone does changes far more slowly than who they follow.
+  classifications: 7 * 24 * 60 * MINUTE_MS,
+};
+
+/** Selected with SOCIALDATA_CACHE_STORE=memory|firestore (default: memory). */
+export function getCacheStore(): Promise<CacheStore> {
+  return processSingleton('cacheStore', async (): Promise<CacheStore> => {
+    if (process.env.SOCIALDATA_CACHE_STORE === 'firestore') {
+      // Imported lazily so the memory store never pulls in the Firestore SDK.
+      const [{ FirestoreCacheStore }, { getAdminFirestore }] = await Promise.all([
+        import('./firestore-store'),
+        import('@/lib/firebase-admin'),
+      ]);
+      return new FirestoreCacheStore(getAdminFirestore());
+    }
+    return new MemoryCacheStore();
+  });
+}
+
+/** Reads a fresh entry, or null on a miss. Read failures are logged and count as a miss. */
+export async function readCache<T>(resource: CacheResource, key: string): Promise<CachedResult<T> | null> {
+  const cacheKey = `${resource}:${key}`;
+  try {
+    const store = await getCacheStore();
+    const entry = await store.get<T>(cacheKey);
+    if (entry) {
+      console.log(`Cache HIT for ${cacheKey}`);
+      return { value: entry.value, status: 'HIT', fetchedAt: entry.fetchedAt };
+    }
+  } catch (error) {
+    console.warn(`Cache read failed for ${cacheKey}:`, error);
+  }
+  return null;
+}
+
+/** Stores `value` for the resource's TTL and returns its fetch time. Write failures are logged. */
+export async function writeCache<T>(resource: CacheResource, key: string, value: T): Promise<number> {
+  const cacheKey = `${resource}:${key}`;
+  const fetchedAt = Date.now();
+  try {
+    const store = await getCacheStore();
+    await store.set(cacheKey, { value, fetchedAt, expiresAt: fetchedAt + CACHE_TTLS_MS[resource] });
+  } catch (error) {
+    console.warn(`Cache write failed for ${cacheKey}:`, error);
+  }
+  return fetchedAt;
+}
+
+/**
+ * Returns the cached value for `key` or calls `load` and caches its result for the
+ * resource's TTL. `refresh` skips the read but still writes the fresh value. Cache
+ * failures are logged and never fail the request.
+ */
+export async function withCache<T>(
+  resource: CacheResource,
+  key: string,
+  load: () => Promise<T>,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<CachedResult<T>> {
+  if (!refresh) {
+    const cached = await readCache<T>(resource, key);
+    if (cached) return cached;
+  }
+
+  console.log(`Cache ${refresh ? 'BYPASS' : 'MISS'} for ${resource}:${key}`);
+  const value = await load();
+  const fetchedAt = await writeCache(resource, key, value);
+  return { value, status: 'MISS', fetchedAt };
+}
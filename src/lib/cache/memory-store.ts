@@ -0,0 +1,37 @@
+import type { CacheEntry, CacheStore } from './types';
+
+/**
+ * Least-recently-used cache backed by a Map, which iterates in insertion order:
+ * reads re-insert the key, so the first key is always the eviction candidate.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,21 @@
+export interface CacheEntry<T> {
+  value: T;
+  /** Epoch milliseconds at which the value was fetched from upstream. */
+  fetchedAt: number;
+  /** Epoch milliseconds after which the entry is stale. */
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+export interface CachedResult<T> {
+  value: T;
+  status: CacheStatus;
+  fetchedAt: number;
+}
@@ -0,0 +1,31 @@
+import { getApps, initializeApp, type App } from 'firebase-admin/app';
+import { getAuth, type Auth } from 'firebase-admin/auth';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+// Server-only counterpart of src/lib/firebase.ts. Verifying ID tokens needs only the project
+// id; other Admin APIs use Application Default Credentials (automatic on Cloud Run).
+// With FIREBASE_AUTH_EMULATOR_HOST set, the Admin SDK accepts tokens from the Auth emulator,
+// and with FIRESTORE_EMULATOR_HOST set it reads and writes the Firestore emulator.
+let adminApp: App | null = null;
+
+function getAdminApp(): App {
+  if (!adminApp) {
+    const projectId = process.env.FIREBASE_PROJECT_ID
+      || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+      || (process.env.FIREBASE_AUTH_EMULATOR_HOST || process.env.FIRESTORE_EMULATOR_HOST ? 'demo-app' : undefined);
+    adminApp = getApps()[0] ?? initializeApp(projectId ? { projectId } : undefined);
+  }
+  return adminApp;
+}
+
+export function getAdminAuth(): Auth {
+  return getAuth(getAdminApp());
+}
+
+/**
+ * Firestore for the server-side stores. The Admin SDK bypasses security rules, which is what
+ * lets firestore.rules deny every client: no browser can read or reset quotas, buckets or caches.
+ */
+export function getAdminFirestore(): Firestore {
+  return getFirestore(getAdminApp());
+}
@@ -1,6 +1,6 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp, getApps, type FirebaseApp } from "firebase/app";
-import { getAuth, type Auth } from "firebase/auth";
+import { connectAuthEmulator, getAuth, type Auth } from "firebase/auth";
 
 // TODO: Add SDKs for Firebase products that you want to use
 // https://firebase.google.com/docs/web/setup#available-libraries
@@ -10,7 +10,8 @@ import { getAuth, type Auth } from "firebase/auth";
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY || "YOUR_NEW_API_KEY",
   authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN || "YOUR_NEW_AUTH_DOMAIN",
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || "YOUR_NEW_PROJECT_ID",
+  // The emulators only accept "demo-*" project ids when no real project is configured.
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || (process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST ? "demo-app" : "YOUR_NEW_PROJECT_ID"),
   storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET || "YOUR_NEW_STORAGE_BUCKET",
   messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID || "YOUR_NEW_MESSAGING_SENDER_ID",
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID || "YOUR_NEW_APP_ID",
@@ -19,7 +20,8 @@ const firebaseConfig = {
 
 // Initialize Firebase
 let app: FirebaseApp;
-if (!getApps().length) {
+const isFirstInit = !getApps().length;
+if (isFirstInit) {
   app = initializeApp(firebaseConfig);
 } else {
   app = getApps()[0];
@@ -27,4 +29,13 @@ if (!getApps().length) {
 
 const auth: Auth = getAuth(app);
 
+// Point at the local Auth emulator (see firebase.json and .idx/dev.nix), e.g. "127.0.0.1:9099".
+// Connecting twice throws, so only the first initialization does it. The browser never uses
+// Firestore: the server-side stores reach it through the Admin SDK (src/lib/firebase-admin.ts).
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (isFirstInit && authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+  console.log(`Using the Auth emulator at ${authEmulatorHost}.`);
+}
+
 export { app, auth };
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { formatAccountRef } from '@/lib/account-input';
+import {
+  collectFollowList,
+  SocialDataApiError,
+  socialDataUserSchema,
+  type FollowListChunk,
+  type FollowListKind,
+  type PaginationLimits,
+  type SocialDataUser,
+} from '@/lib/socialdata';
+import type { FollowGraphProvider } from './provider';
+
+export const fixtureGraphSchema = z.object({
+  users: z.array(socialDataUserSchema),
+  /** Adjacency list: id_str -> id_strs that account follows. */
+  followings: z.record(z.array(z.string())),
+});
+
+export type FixtureGraph = z.infer<typeof fixtureGraphSchema>;
+
+// Mirrors SocialData's page size so pagesFetched/maxPages behave like the live API.
+const FIXTURE_PAGE_SIZE = 200;
+
+async function* paginate(users: SocialDataUser[], limits: PaginationLimits): AsyncGenerator<FollowListChunk> {
+  let offset = 0;
+  let pagesFetched = 0;
+  do {
+    const room = limits.maxUsers - offset;
+    const page = users.slice(offset, offset + FIXTURE_PAGE_SIZE);
+    const truncated = page.length > room;
+    const pageUsers = truncated ? page.slice(0, room) : page;
+    offset += pageUsers.length;
+    pagesFetched++;
+    const nextCursor = offset < users.length ? `fixture:${offset}` : null;
+    yield { users: pageUsers, nextCursor, truncated };
+    if (!nextCursor) return;
+  } while (pagesFetched < limits.maxPages && offset < limits.maxUsers);
+}
+
+export function createFixtureProvider(graph: FixtureGraph): FollowGraphProvider {
+  const usersById = new Map(graph.users.map((user) => [user.id_str, user]));
+  const usersByHandle = new Map(graph.users.map((user) => [user.screen_name.toLowerCase(), user]));
+
+  const followersById = new Map<string, string[]>();
+  for (const [followerId, followeeIds] of Object.entries(graph.followings)) {
+    for (const followeeId of followeeIds) {
+      followersById.set(followeeId, [...(followersById.get(followeeId) ?? []), followerId]);
+    }
+  }
+
+  const resolve = (ids: string[]) =>
+    ids.map((id) => usersById.get(id)).filter((user): user is SocialDataUser => Boolean(user));
+
+  const iterate = (kind: FollowListKind, userId: string, limits: PaginationLimits) =>
+    paginate(resolve((kind === 'followings' ? graph.followings[userId] : followersById.get(userId)) ?? []), limits);
+
+  return {
+    name: 'fixture',
+    async lookupUser(account) {
+      const user = account.kind === 'handle' ? usersByHandle.get(account.handle.toLowerCase()) : usersById.get(account.id);
+      if (!user) {
+        throw new SocialDataApiError(`${formatAccountRef(account)} does not exist in the fixture graph.`, 404);
+      }
+      return user;
+    },
+    listFollowings(userId, limits) {
+      return collectFollowList(iterate('followings', userId, limits));
+    },
+    listFollowers(userId, limits) {
+      return collectFollowList(iterate('followers', userId, limits));
+    },
+    iterateFollowList: (kind, userId, limits) => iterate(kind, userId, limits),
+  };
+}
+
+/** Reads and validates a fixture graph from disk (JSON in the shape of `fixtures/demo-graph.json`). */
+export async function loadFixtureGraph(path: string): Promise<FixtureGraph> {
+  const { readFile } = await import('node:fs/promises');
+  const raw = JSON.parse(await readFile(path, 'utf8'));
+  return fixtureGraphSchema.parse(raw);
+}
@@ -0,0 +1,49 @@
+import demoGraph from './fixtures/demo-graph.json';
+import { createFixtureProvider, fixtureGraphSchema, loadFixtureGraph } from './fixture-provider';
+import { ProviderConfigError, type FollowGraphProvider } from './provider';
+import { createSocialDataProvider } from './socialdata-provider';
+
+export { createFixtureProvider, fixtureGraphSchema, loadFixtureGraph, type FixtureGraph } from './fixture-provider';
+export { ProviderConfigError, type FollowGraphProvider } from './provider';
+export { createSocialDataProvider } from './socialdata-provider';
+
+let fixtureProviderPromise: Promise<FollowGraphProvider> | null = null;
+
+/**
+ * Picks the provider from FOLLOW_GRAPH_PROVIDER:
+ * - `socialdata` (default): the live API, requires SOCIALDATA_API_KEY.
+ * - `fixture`: an offline graph read from FOLLOW_GRAPH_FIXTURE_PATH, or the bundled demo graph.
+ */
+export async function getFollowGraphProvider(): Promise<FollowGraphProvider> {
+  const providerName = process.env.FOLLOW_GRAPH_PROVIDER || 'socialdata';
+
+  if (providerName === 'fixture') {
+    if (!fixtureProviderPromise) {
+      const fixturePath = process.env.FOLLOW_GRAPH_FIXTURE_PATH;
+      console.log(`Using fixture follow graph provider (${fixturePath || 'bundled demo graph'}).`);
+      fixtureProviderPromise = (fixturePath ? loadFixtureGraph(fixturePath) : Promise.resolve(fixtureGraphSchema.parse(demoGraph)))
+        .then(createFixtureProvider, (error) => {
+          throw new ProviderConfigError(`Could not load the fixture follow graph: ${error?.message ?? error}`);
+        });
+      // Let a broken fixture file be fixed without restarting the server.
+      fixtureProviderPromise.catch(() => { fixtureProviderPromise = null; });
+    }
+    return fixtureProviderPromise;
+  }
+
+  if (providerName !== 'socialdata') {
+    throw new ProviderConfigError(`Unknown FOLLOW_GRAPH_PROVIDER "${providerName}". Expected "socialdata" or "fixture".`);
+  }
+
+  const apiKey = process.env.SOCIALDATA_API_KEY;
+  if (!apiKey) {
+    console.error('CRITICAL: SOCIALDATA_API_KEY is not set in server environment variables.');
+    throw new ProviderConfigError("The SOCIALDATA_API_KEY is missing from the server's configuration. Please contact support or the administrator.");
+  }
+
+  // Log a masked version of the API key for debugging
+  const maskedApiKey = apiKey.length > 8 ? `${apiKey.substring(0, 4)}...${apiKey.substring(apiKey.length - 4)}` : "Key too short to mask";
+  console.log(`Using SOCIALDATA_API_KEY (masked): ${maskedApiKey}`);
+
+  return createSocialDataProvider(apiKey);
+}
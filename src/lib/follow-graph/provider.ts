@@ -0,0 +1,25 @@
+import type { AccountRef } from '@/lib/account-input';
+import type { FollowList, FollowListChunk, FollowListKind, PaginationLimits, SocialDataUser } from '@/lib/socialdata';
+
+/**
+ * Source of accounts and follow edges. Implementations throw the `@/lib/socialdata`
+ * error classes so callers map failures the same way regardless of the backend.
+ */
+export interface FollowGraphProvider {
+  /** Short identifier, used in logs and cache keys. */
+  readonly name: string;
+  /** Resolves a handle or a numeric id, never mistaking one kind for the other. */
+  lookupUser(account: AccountRef): Promise<SocialDataUser>;
+  listFollowings(userId: string, limits: PaginationLimits): Promise<FollowList>;
+  listFollowers(userId: string, limits: PaginationLimits): Promise<FollowList>;
+  /** Yields the list page by page, for callers that report progress while it loads. */
+  iterateFollowList(kind: FollowListKind, userId: string, limits: PaginationLimits): AsyncIterable<FollowListChunk>;
+}
+
+/** The provider cannot be built from the current server environment. */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
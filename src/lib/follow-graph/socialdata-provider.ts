@@ -0,0 +1,12 @@
+import { fetchFollowList, iterateFollowList, lookupUser, type PaginationLimits } from '@/lib/socialdata';
+import type { FollowGraphProvider } from './provider';
+
+export function createSocialDataProvider(apiKey: string): FollowGraphProvider {
+  return {
+    name: 'socialdata',
+    lookupUser: (account) => lookupUser(account, apiKey),
+    listFollowings: (userId: string, limits: PaginationLimits) => fetchFollowList('followings', userId, apiKey, limits),
+    listFollowers: (userId: string, limits: PaginationLimits) => fetchFollowList('followers', userId, apiKey, limits),
+    iterateFollowList: (kind, userId, limits) => iterateFollowList(kind, userId, apiKey, limits),
+  };
+}
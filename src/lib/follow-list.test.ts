@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { toApiErrorBody } from '@/lib/api-error-response';
+import { createFixtureProvider } from '@/lib/follow-graph';
+import { getFollowGraphStore } from '@/lib/graph-store';
+import { SocialDataApiError, type SocialDataUser } from '@/lib/socialdata';
+import {
+  DEFAULT_MAX_PAGES,
+  DEFAULT_MAX_USERS,
+  HARD_MAX_USERS,
+  loadFollowList,
+  lookupAccount,
+  lookupListableAccount,
+  parsePaginationLimits,
+  toFollowListError,
+} from './follow-list';
+
+const parse = (query: string) => parsePaginationLimits(new URLSearchParams(query));
+
+describe('parsePaginationLimits', () => {
+  it('falls back to the defaults', () => {
+    expect(parse('')).toEqual({ maxPages: DEFAULT_MAX_PAGES, maxUsers: DEFAULT_MAX_USERS });
+    expect(parse('maxPages=&maxUsers=')).toEqual({ maxPages: DEFAULT_MAX_PAGES, maxUsers: DEFAULT_MAX_USERS });
+  });
+
+  it('accepts positive integers up to the hard caps', () => {
+    expect(parse(`maxPages=500&maxUsers=${HARD_MAX_USERS}`)).toEqual({ maxPages: 500, maxUsers: HARD_MAX_USERS });
+  });
+
+  it.each(['maxPages=501', 'maxPages=0', 'maxUsers=-1', 'maxUsers=1e9', `maxUsers=${HARD_MAX_USERS + 1}`, 'maxUsers=2.5', 'maxUsers=abc'])(
+    'rejects %s',
+    (query) => {
+      expect(parse(query)).toBeNull();
+    },
+  );
+});
+
+describe('toFollowListError', () => {
+  it('reports a list-endpoint 404 as an upstream error, not a missing user', () => {
+    const body = toApiErrorBody(toFollowListError(new SocialDataApiError('Not found', 404)));
+    expect(body.code).toBe('UPSTREAM_ERROR');
+  });
+
+  it('passes other errors through', () => {
+    const error = new SocialDataApiError('Rate limited', 429);
+    expect(toFollowListError(error)).toBe(error);
+  });
+});
+
+describe('loadFollowList', () => {
+  const user = (id: string): SocialDataUser => ({ id_str: id, screen_name: `persisted_${id}` }) as SocialDataUser;
+
+  it('has stored a fetched list in the graph by the time it returns', async () => {
+    const provider = createFixtureProvider({ users: [user('9001'), user('9002')], followings: { 9001: ['9002'] } });
+    await loadFollowList(provider, { kind: 'id', id: '9001' }, 'followings', { maxPages: 1, maxUsers: 10 });
+
+    const store = (await getFollowGraphStore())!;
+    expect(await store.listNeighbourIds('9001', 'followings')).toEqual(['9002']);
+    expect((await store.getAccount('9002'))?.screen_name).toBe('persisted_9002');
+  });
+});
+
+describe('lookupAccount', () => {
+  const provider = createFixtureProvider({
+    users: [{ id_str: '9100', screen_name: 'locked', protected: true } as SocialDataUser],
+    followings: {},
+  });
+
+  it('returns protected accounts, which only lookupListableAccount refuses', async () => {
+    await expect(lookupAccount(provider, { kind: 'handle', handle: 'locked' })).resolves.toMatchObject({ user: { id_str: '9100' } });
+    await expect(lookupListableAccount(provider, { kind: 'handle', handle: 'locked' })).rejects.toMatchObject({ code: 'PROTECTED_ACCOUNT' });
+  });
+
+  it('maps a missing account to USER_NOT_FOUND', async () => {
+    await expect(lookupAccount(provider, { kind: 'handle', handle: 'nobody' })).rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,220 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { accountRefCacheKey, formatAccountRef, parseAccountInput, type AccountRef } from '@/lib/account-input';
+import { ApiError, apiErrorResponse, toApiErrorResponse } from '@/lib/api-error-response';
+import { withCache, type CacheStatus } from '@/lib/cache';
+import { getFollowGraphProvider, type FollowGraphProvider } from '@/lib/follow-graph';
+import { persistFollowList } from '@/lib/graph-store';
+import {
+  SocialDataApiError,
+  toProfile,
+  type FollowList,
+  type FollowListKind,
+  type PaginationLimits,
+  type SocialDataUser,
+} from '@/lib/socialdata';
+
+// Defaults keep a single request within a reasonable number of upstream calls;
+// callers can raise them per request up to the hard caps below.
+export const DEFAULT_MAX_PAGES = 50;
+export const DEFAULT_MAX_USERS = 10000;
+export const HARD_MAX_PAGES = 500;
+export const HARD_MAX_USERS = 50000;
+export const INVALID_PAGINATION_MESSAGE =
+  `maxPages and maxUsers must be positive integers (maxPages <= ${HARD_MAX_PAGES}, maxUsers <= ${HARD_MAX_USERS}).`;
+
+export function parsePaginationLimits(searchParams: URLSearchParams): PaginationLimits | null {
+  const parse = (name: string, fallback: number) => {
+    const raw = searchParams.get(name);
+    if (raw === null || raw === '') return fallback;
+    const value = Number(raw);
+    return Number.isInteger(value) && value > 0 ? value : NaN;
+  };
+
+  const maxPages = parse('maxPages', DEFAULT_MAX_PAGES);
+  const maxUsers = parse('maxUsers', DEFAULT_MAX_USERS);
+  if (Number.isNaN(maxPages) || Number.isNaN(maxUsers) || maxPages > HARD_MAX_PAGES || maxUsers > HARD_MAX_USERS) {
+    return null;
+  }
+  return { maxPages, maxUsers };
+}
+
+export interface FollowListResult {
+  user: SocialDataUser;
+  list: FollowList;
+  /** HIT only when neither the lookup nor the list needed an upstream call. */
+  cacheStatus: CacheStatus;
+  fetchedAt: number;
+}
+
+export function followListCacheKey(provider: FollowGraphProvider, userId: string, limits: PaginationLimits): string {
+  return `${provider.name}:${userId}:${limits.maxPages}:${limits.maxUsers}`;
+}
+
+/**
+ * Resolves `account` to its profile through the lookup cache, mapping "not found" to
+ * USER_NOT_FOUND. Protected accounts are returned like any other.
+ */
+export async function lookupAccount(
+  provider: FollowGraphProvider,
+  account: AccountRef,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<{ user: SocialDataUser; cacheStatus: CacheStatus }> {
+  const label = formatAccountRef(account);
+  console.log(`Attempting user lookup for ${label}`);
+  let lookup;
+  try {
+    lookup = await withCache('user', `${provider.name}:${accountRefCacheKey(account)}`, () => provider.lookupUser(account), { refresh });
+  } catch (error) {
+    if (error instanceof SocialDataApiError && error.status === 404) {
+      throw new ApiError('USER_NOT_FOUND', `${label} not found.`, { account: label });
+    }
+    throw error;
+  }
+  console.log(`Successfully looked up user ID for ${label}: ${lookup.value.id_str}`);
+  return { user: lookup.value, cacheStatus: lookup.status };
+}
+
+/**
+ * Resolves `account` to one whose follow lists can be fetched, mapping "not found" and
+ * protected accounts to their ApiError codes.
+ */
+export async function lookupListableAccount(
+  provider: FollowGraphProvider,
+  account: AccountRef,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<{ user: SocialDataUser; cacheStatus: CacheStatus }> {
+  const lookup = await lookupAccount(provider, account, { refresh });
+  const { user } = lookup;
+
+  // SocialData cannot list a protected account's follows; fail before spending credits on it.
+  if (user.protected) {
+    throw new ApiError('PROTECTED_ACCOUNT', `@${user.screen_name} is a protected account.`, { userId: user.id_str });
+  }
+  return lookup;
+}
+
+/**
+ * Maps an error from walking a follow list. A 404 from the list endpoint is not "user not
+ * found": the lookup already succeeded, so it is reported as an upstream error.
+ */
+export function toFollowListError(error: unknown): unknown {
+  if (error instanceof SocialDataApiError && error.status === 404) {
+    return new ApiError('UPSTREAM_ERROR', error.message, { upstreamStatus: 404 });
+  }
+  return error;
+}
+
+/**
+ * The lookup + list pipeline shared by every route: resolves `account` (a handle or
+ * numeric id) to a user, then walks its follow list. Failures are thrown as ApiError
+ * or as the provider's own errors, ready for `toApiErrorResponse`.
+ */
+export async function loadFollowList(
+  provider: FollowGraphProvider,
+  account: AccountRef,
+  kind: FollowListKind,
+  limits: PaginationLimits,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<FollowListResult> {
+  // Step 1: User Lookup to get numeric user_id
+  const { user, cacheStatus: lookupCacheStatus } = await lookupListableAccount(provider, account, { refresh });
+
+  // Step 2: Walk the follow list cursor chain using the numeric user_id
+  console.log(`Attempting to fetch ${kind} for user ID: ${user.id_str} (maxPages: ${limits.maxPages}, maxUsers: ${limits.maxUsers})`);
+  let list;
+  try {
+    list = await withCache(
+      kind,
+      followListCacheKey(provider, user.id_str, limits),
+      () => kind === 'followings' ? provider.listFollowings(user.id_str, limits) : provider.listFollowers(user.id_str, limits),
+      { refresh },
+    );
+  } catch (error) {
+    throw toFollowListError(error);
+  }
+
+  // Cached lists were stored when first fetched; only fresh ones update the graph. The write is
+  // awaited because callers (snapshot diffs, segments, semantic search) read the graph next,
+  // and a serverless runtime may drop work left running after the response.
+  if (list.status === 'MISS') {
+    await persistFollowList(user, kind, list.value, list.fetchedAt);
+  }
+
+  const { users, pagesFetched, isComplete } = list.value;
+  if (users.length === 0) {
+    console.log(`The ${kind} list for user ID ${user.id_str} (${formatAccountRef(account)}) is empty as per external API.`);
+  } else {
+    console.log(`Successfully extracted ${users.length} ${kind} usernames for user ID ${user.id_str} (${formatAccountRef(account)}) across ${pagesFetched} page(s). Complete: ${isComplete}.`);
+  }
+
+  return {
+    user,
+    list: list.value,
+    cacheStatus: lookupCacheStatus === 'HIT' && list.status === 'HIT' ? 'HIT' : 'MISS',
+    fetchedAt: list.fetchedAt,
+  };
+}
+
+/** JSON body returned for a follow list, by the single and batch routes alike. */
+export function toFollowListBody(kind: FollowListKind, { user, list, fetchedAt }: FollowListResult, includeProfiles: boolean) {
+  const usernames = list.users.map((u) => u.screen_name);
+  // The profile counts are what X reports; they can drift slightly from what the list endpoints return.
+  const reportedCount = kind === 'followings' ? user.friends_count : user.followers_count;
+
+  return {
+    [kind]: usernames,
+    totalCount: usernames.length,
+    reportedCount: reportedCount ?? null,
+    isComplete: list.isComplete,
+    pagesFetched: list.pagesFetched,
+    nextCursor: list.nextCursor,
+    ...(includeProfiles ? { profiles: list.users.map(toProfile) } : {}),
+    fetchedAt: new Date(fetchedAt).toISOString(),
+  };
+}
+
+export async function handleFollowListRequest(request: NextRequest, kind: FollowListKind) {
+  const searchParams = request.nextUrl.searchParams;
+  const rawUsername = searchParams.get('username');
+
+  if (!rawUsername) {
+    return apiErrorResponse('INVALID_REQUEST', 'Username is required.', { field: 'username' });
+  }
+  const account = parseAccountInput(rawUsername);
+  if (!account.ok) {
+    return apiErrorResponse('INVALID_REQUEST', account.error, { field: 'username' });
+  }
+  const username = formatAccountRef(account.value);
+  console.log(`Processing request for ${username}`);
+
+  const limits = parsePaginationLimits(searchParams);
+  if (!limits) {
+    return apiErrorResponse('INVALID_REQUEST', INVALID_PAGINATION_MESSAGE);
+  }
+
+  // `include=profiles` adds normalized profile objects; the plain username list stays for older clients.
+  const includeProfiles = searchParams.getAll('include').some((value) => value.split(',').includes('profiles'));
+  const refresh = searchParams.get('refresh') === '1';
+  const stream = searchParams.get('stream');
+  if (stream !== null && stream !== 'ndjson') {
+    return apiErrorResponse('INVALID_REQUEST', 'stream must be "ndjson" when provided.');
+  }
+
+  try {
+    const provider = await getFollowGraphProvider();
+    if (stream === 'ndjson') {
+      // Imported lazily: follow-stream depends on this module.
+      const { createFollowListStream } = await import('@/lib/follow-stream');
+      return await createFollowListStream(provider, account.value, kind, limits, { refresh });
+    }
+    const result = await loadFollowList(provider, account.value, kind, limits, { refresh });
+
+    return NextResponse.json(toFollowListBody(kind, result, includeProfiles), {
+      // Only a full HIT means no paid upstream call was made for this response.
+      headers: { 'X-Cache': result.cacheStatus },
+    });
+  } catch (error) {
+    console.warn(`Request for ${kind} of ${username} failed:`, (error as Error)?.message);
+    return toApiErrorResponse(error);
+  }
+}
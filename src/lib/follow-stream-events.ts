@@ -0,0 +1,32 @@
+// Shared by the streaming route and the client: keep this file free of server-only imports.
+import type { ApiErrorBody } from '@/lib/api-errors';
+import type { XProfile } from '@/lib/socialdata';
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/** Events of `GET /api/get-followings?stream=ndjson`, one JSON object per line. */
+export type FollowStreamEvent =
+  | { type: 'start'; user: XProfile; estimatedTotal: number | null }
+  | { type: 'page'; users: XProfile[] }
+  | { type: 'progress'; pagesFetched: number; usersSoFar: number; estimatedTotal: number | null }
+  | { type: 'done'; totalCount: number; isComplete: boolean; pagesFetched: number; nextCursor: string | null; fetchedAt: string; cache: 'HIT' | 'MISS' }
+  | { type: 'error'; error: ApiErrorBody };
+
+/** Parses an NDJSON response body line by line as it arrives. */
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+    if (done) return;
+  }
+}
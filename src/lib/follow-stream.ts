@@ -0,0 +1,94 @@
+import { readCache, writeCache } from '@/lib/cache';
+import { toApiErrorBody } from '@/lib/api-error-response';
+import { formatAccountRef, type AccountRef } from '@/lib/account-input';
+import type { FollowGraphProvider } from '@/lib/follow-graph';
+import { followListCacheKey, lookupListableAccount, toFollowListError } from '@/lib/follow-list';
+import { persistFollowList } from '@/lib/graph-store';
+import { NDJSON_CONTENT_TYPE, type FollowStreamEvent } from '@/lib/follow-stream-events';
+import {
+  collectFollowList,
+  toProfile,
+  type FollowList,
+  type FollowListChunk,
+  type FollowListKind,
+  type PaginationLimits,
+} from '@/lib/socialdata';
+
+/**
+ * Streams a follow list as NDJSON events while it is fetched. The lookup runs before the
+ * response starts, so "not found" and protected accounts still get a regular error status;
+ * failures after that arrive as an `error` event.
+ */
+export async function createFollowListStream(
+  provider: FollowGraphProvider,
+  account: AccountRef,
+  kind: FollowListKind,
+  limits: PaginationLimits,
+  { refresh = false }: { refresh?: boolean } = {},
+): Promise<Response> {
+  const { user } = await lookupListableAccount(provider, account, { refresh });
+  const estimatedTotal = (kind === 'followings' ? user.friends_count : user.followers_count) ?? null;
+  const cacheKey = followListCacheKey(provider, user.id_str, limits);
+  const cached = refresh ? null : await readCache<FollowList>(kind, cacheKey);
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: FollowStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      send({ type: 'start', user: toProfile(user), estimatedTotal });
+
+      try {
+        if (cached) {
+          const { users, pagesFetched, isComplete, nextCursor } = cached.value;
+          send({ type: 'page', users: users.map(toProfile) });
+          send({ type: 'progress', pagesFetched, usersSoFar: users.length, estimatedTotal });
+          send({ type: 'done', totalCount: users.length, isComplete, pagesFetched, nextCursor, fetchedAt: new Date(cached.fetchedAt).toISOString(), cache: 'HIT' });
+        } else {
+          let pagesFetched = 0;
+          let usersSoFar = 0;
+          async function* reportProgress(chunks: AsyncIterable<FollowListChunk>) {
+            for await (const chunk of chunks) {
+              if (cancelled) return;
+              pagesFetched++;
+              usersSoFar += chunk.users.length;
+              send({ type: 'page', users: chunk.users.map(toProfile) });
+              send({ type: 'progress', pagesFetched, usersSoFar, estimatedTotal });
+              yield chunk;
+            }
+          }
+
+          const list = await collectFollowList(reportProgress(provider.iterateFollowList(kind, user.id_str, limits)));
+          if (!cancelled) {
+            const fetchedAt = await writeCache(kind, cacheKey, list);
+            // Stored before `done`, so a client acting on it finds the accounts in the graph.
+            await persistFollowList(user, kind, list, fetchedAt);
+            console.log(`Streamed ${list.users.length} ${kind} for user ID ${user.id_str} across ${list.pagesFetched} page(s). Complete: ${list.isComplete}.`);
+            send({ type: 'done', totalCount: list.users.length, isComplete: list.isComplete, pagesFetched: list.pagesFetched, nextCursor: list.nextCursor, fetchedAt: new Date(fetchedAt).toISOString(), cache: 'MISS' });
+          }
+        }
+      } catch (error) {
+        console.warn(`Streaming ${kind} for ${formatAccountRef(account)} failed:`, (error as Error)?.message);
+        send({ type: 'error', error: toApiErrorBody(toFollowListError(error)) });
+      }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      // The client went away; stop walking the cursor chain so we stop spending credits.
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+      'X-Cache': cached ? 'HIT' : 'MISS',
+    },
+  });
+}
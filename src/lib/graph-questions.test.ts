@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { renumberCitations } from './graph-questions';
+
+describe('renumberCitations', () => {
+  it('leaves a complete set of citations unchanged', () => {
+    const citations = [{ index: 1, handle: 'a' }, { index: 2, handle: 'b' }];
+    expect(renumberCitations('Both [1] and [2] invest.', citations)).toEqual({ answer: 'Both [1] and [2] invest.', citations });
+  });
+
+  it('closes the gaps left by dropped citations and removes their markers', () => {
+    const result = renumberCitations('Alice [1], Bob [2] and Carol [3] invest [1, 2, 3].', [{ index: 1, handle: 'alice' }, { index: 3, handle: 'carol' }]);
+    expect(result.answer).toBe('Alice [1], Bob and Carol [2] invest [1, 2].');
+    expect(result.citations).toEqual([{ index: 1, handle: 'alice' }, { index: 2, handle: 'carol' }]);
+  });
+
+  it('removes every marker when nothing survives', () => {
+    expect(renumberCitations('Only Bob [1] matches.', []).answer).toBe('Only Bob matches.');
+  });
+});
@@ -0,0 +1,58 @@
+// Shared by the graph-question route and the client: keep this file free of server-only imports.
+import type { AccountCategory } from '@/lib/segments';
+import type { XProfile } from '@/lib/socialdata';
+
+export const MAX_QUESTION_LENGTH = 300;
+export const DEFAULT_QUERY_LIMIT = 25;
+export const MAX_QUERY_LIMIT = 50;
+
+/** One structured query over the stored graph; every given condition must hold. */
+export interface GraphQuery {
+  /** Handles whose stored followings must all include the account. */
+  followedByAll?: string[];
+  /** Handles the account must follow, judged by their stored followers. */
+  followingAll?: string[];
+  /** The account must have at least one of these categories. */
+  categories?: AccountCategory[];
+  /** Its bio or name must contain at least one of these, case-insensitively. */
+  bioKeywords?: string[];
+  minFollowers?: number;
+  maxFollowers?: number;
+  limit?: number;
+}
+
+/** Body of POST /api/graph-question. */
+export interface GraphQuestionRequest {
+  question: string;
+}
+
+export interface GraphAnswerCitation {
+  /** The `[n]` marker used for this account in the answer. */
+  index: number;
+  profile: XProfile;
+  categories: AccountCategory[];
+  note: string;
+}
+
+export interface GraphAnswerResponse {
+  question: string;
+  answer: string;
+  citations: GraphAnswerCitation[];
+  /** The structured queries the answer is based on, in the order they ran. */
+  queries: GraphQuery[];
+}
+
+/**
+ * Renumbers the surviving `citations` 1..n, in their original order, and rewrites the `[n]`
+ * markers in `answer` to match. Markers of citations that were dropped (the account was
+ * never returned or is no longer stored) are removed, so no marker points at the wrong account.
+ */
+export function renumberCitations<T extends { index: number }>(answer: string, citations: T[]): { answer: string; citations: T[] } {
+  const kept = [...citations].sort((a, b) => a.index - b.index);
+  const newIndex = new Map(kept.map((citation, position) => [citation.index, position + 1]));
+  const rewritten = answer.replace(/\s*\[(\d+(?:\s*,\s*\d+)*)\]/g, (marker, list: string) => {
+    const indexes = list.split(',').map((n) => newIndex.get(Number(n))).filter((n): n is number => n !== undefined);
+    return indexes.length ? marker.replace(/\[.*\]/, `[${indexes.join(', ')}]`) : '';
+  });
+  return { answer: rewritten, citations: kept.map((citation, position) => ({ ...citation, index: position + 1 })) };
+}
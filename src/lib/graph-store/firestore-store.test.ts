@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getAdminFirestore } from '@/lib/firebase-admin';
+import type { SocialDataUser } from '@/lib/socialdata';
+import { FirestoreFollowGraphStore } from './firestore-store';
+
+// Runs against the Firestore emulator only: `npm run test:emulator`.
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+// Ids are unique per run, so the tests need no cleanup and never see each other's documents.
+const runId = Date.now().toString();
+const idOf = (n: number) => `${runId}${n}`;
+
+function user(n: number, overrides: Partial<SocialDataUser> = {}): SocialDataUser {
+  return { id_str: idOf(n), screen_name: `user_${runId}_${n}`, name: `User ${n}`, ...overrides } as SocialDataUser;
+}
+
+describe.skipIf(!emulatorHost)('FirestoreFollowGraphStore', () => {
+  const store = new FirestoreFollowGraphStore(getAdminFirestore());
+
+  it('keeps a stored profile newer than the incoming one, like the memory store', async () => {
+    await store.upsertAccounts([user(1, { name: 'Newer' })], 2000);
+    await store.upsertAccounts([user(1, { name: 'Older' })], 1000);
+    expect((await store.getAccount(idOf(1)))?.name).toBe('Newer');
+
+    await store.upsertAccounts([user(1, { name: 'Newest' })], 3000);
+    expect(await store.getAccount(idOf(1))).toMatchObject({ name: 'Newest', updatedAt: 3000 });
+  });
+
+  it('finds accounts by handle regardless of case', async () => {
+    await store.upsertAccounts([user(2)], 1000);
+    expect((await store.findAccountByHandle(`USER_${runId}_2`))?.id_str).toBe(idOf(2));
+  });
+
+  it('drops missing edges only when the list is complete', async () => {
+    const owner = idOf(3);
+    await store.replaceEdges(owner, 'followings', [idOf(4), idOf(5)], { fetchedAt: 1000, isComplete: true });
+    await store.replaceEdges(owner, 'followings', [idOf(6)], { fetchedAt: 2000, isComplete: false });
+    expect((await store.listNeighbourIds(owner, 'followings')).sort()).toEqual([idOf(4), idOf(5), idOf(6)]);
+
+    await store.replaceEdges(owner, 'followings', [idOf(5)], { fetchedAt: 3000, isComplete: true });
+    expect(await store.listNeighbourIds(owner, 'followings')).toEqual([idOf(5)]);
+    expect(await store.listNeighbourIds(idOf(5), 'followers')).toEqual([owner]);
+    expect(await store.getEdgeSetMeta(owner, 'followings')).toEqual({ accountId: owner, kind: 'followings', fetchedAt: 3000, count: 1, isComplete: true });
+  });
+
+  it('reads accounts in groups larger than one `in` filter', async () => {
+    const users = Array.from({ length: 45 }, (_, i) => user(100 + i));
+    await store.upsertAccounts(users, 1000);
+    const accounts = await store.getAccounts(users.map((u) => u.id_str));
+    expect(accounts.map((account) => account.id_str).sort()).toEqual(users.map((u) => u.id_str).sort());
+  });
+});
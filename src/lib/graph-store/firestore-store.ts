@@ -0,0 +1,111 @@
+import { FieldPath, type Firestore, type WriteBatch } from 'firebase-admin/firestore';
+import type { FollowListKind, SocialDataUser } from '@/lib/socialdata';
+import type { EdgeSetMeta, FollowGraphStore, StoredAccount } from './types';
+
+const ACCOUNTS = 'graphAccounts';
+const EDGES = 'graphEdges';
+const EDGE_SETS = 'graphEdgeSets';
+// Firestore caps a batch at 500 writes and an `in` filter at 30 values.
+const BATCH_LIMIT = 500;
+const IN_FILTER_LIMIT = 30;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/** Firestore rejects `undefined` field values; the zod-parsed users may contain them. */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * Accounts live in `graphAccounts/{id_str}`, each follow relation in
+ * `graphEdges/{followerId}_{followeeId}`, and per-list metadata in
+ * `graphEdgeSets/{accountId}_{kind}`.
+ */
+export class FirestoreFollowGraphStore implements FollowGraphStore {
+  readonly name = 'firestore';
+
+  constructor(private readonly db: Firestore) {}
+
+  private async commitInBatches(operations: ((batch: WriteBatch) => void)[]) {
+    for (const group of chunk(operations, BATCH_LIMIT)) {
+      const batch = this.db.batch();
+      group.forEach((apply) => apply(batch));
+      await batch.commit();
+    }
+  }
+
+  /** Like the memory store, keeps a stored profile that is newer than `fetchedAt`. */
+  async upsertAccounts(users: SocialDataUser[], fetchedAt: number): Promise<void> {
+    for (const group of chunk(users, BATCH_LIMIT)) {
+      await this.db.runTransaction(async (transaction) => {
+        const refs = group.map((user) => this.db.collection(ACCOUNTS).doc(user.id_str));
+        const existing = await transaction.getAll(...refs);
+        group.forEach((user, i) => {
+          const updatedAt = existing[i].get('updatedAt') as number | undefined;
+          if (updatedAt !== undefined && updatedAt > fetchedAt) return;
+          transaction.set(refs[i], withoutUndefined({ ...user, handleLower: user.screen_name.toLowerCase(), updatedAt: fetchedAt }));
+        });
+      });
+    }
+  }
+
+  async replaceEdges(accountId: string, kind: FollowListKind, neighbourIds: string[], meta: { fetchedAt: number; isComplete: boolean }): Promise<void> {
+    const next = new Set(neighbourIds);
+    const edgeIds = (neighbourId: string) => kind === 'followings'
+      ? { followerId: accountId, followeeId: neighbourId }
+      : { followerId: neighbourId, followeeId: accountId };
+    const edgeRef = (neighbourId: string) => {
+      const { followerId, followeeId } = edgeIds(neighbourId);
+      return this.db.collection(EDGES).doc(`${followerId}_${followeeId}`);
+    };
+
+    const stale = meta.isComplete
+      ? (await this.listNeighbourIds(accountId, kind)).filter((neighbourId) => !next.has(neighbourId))
+      : [];
+
+    await this.commitInBatches([
+      ...stale.map((neighbourId) => (batch: WriteBatch) => batch.delete(edgeRef(neighbourId))),
+      ...[...next].map((neighbourId) => (batch: WriteBatch) => batch.set(edgeRef(neighbourId), { ...edgeIds(neighbourId), fetchedAt: meta.fetchedAt })),
+      (batch) => batch.set(this.db.collection(EDGE_SETS).doc(`${accountId}_${kind}`), {
+        accountId, kind, fetchedAt: meta.fetchedAt, count: next.size, isComplete: meta.isComplete,
+      } satisfies EdgeSetMeta),
+    ]);
+  }
+
+  async getAccount(id: string): Promise<StoredAccount | null> {
+    const snapshot = await this.db.collection(ACCOUNTS).doc(id).get();
+    return snapshot.exists ? (snapshot.data() as StoredAccount) : null;
+  }
+
+  async findAccountByHandle(handle: string): Promise<StoredAccount | null> {
+    const snapshot = await this.db.collection(ACCOUNTS).where('handleLower', '==', handle.toLowerCase()).limit(1).get();
+    return snapshot.empty ? null : (snapshot.docs[0].data() as StoredAccount);
+  }
+
+  async getAccounts(ids: string[]): Promise<StoredAccount[]> {
+    const snapshots = await Promise.all(
+      chunk(ids, IN_FILTER_LIMIT).map((group) => this.db.collection(ACCOUNTS).where(FieldPath.documentId(), 'in', group).get()),
+    );
+    return snapshots.flatMap((snapshot) => snapshot.docs.map((d) => d.data() as StoredAccount));
+  }
+
+  async listAccounts(limit = 1000): Promise<StoredAccount[]> {
+    const snapshot = await this.db.collection(ACCOUNTS).limit(limit).get();
+    return snapshot.docs.map((d) => d.data() as StoredAccount);
+  }
+
+  async listNeighbourIds(accountId: string, kind: FollowListKind): Promise<string[]> {
+    const [field, neighbourField] = kind === 'followings' ? ['followerId', 'followeeId'] : ['followeeId', 'followerId'];
+    const snapshot = await this.db.collection(EDGES).where(field, '==', accountId).get();
+    return snapshot.docs.map((d) => d.get(neighbourField) as string);
+  }
+
+  async getEdgeSetMeta(accountId: string, kind: FollowListKind): Promise<EdgeSetMeta | null> {
+    const snapshot = await this.db.collection(EDGE_SETS).doc(`${accountId}_${kind}`).get();
+    return snapshot.exists ? (snapshot.data() as EdgeSetMeta) : null;
+  }
+}
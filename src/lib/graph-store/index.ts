@@ -0,0 +1,48 @@
+import { processSingleton } from '@/lib/process-singleton';
+import type { FollowList, FollowListKind, SocialDataUser } from '@/lib/socialdata';
+import { MemoryFollowGraphStore } from './memory-store';
+import type { FollowGraphStore } from './types';
+
+export { MemoryFollowGraphStore } from './memory-store';
+export { runGraphQuery, type CategorizeProfiles, type GraphQueryMatch, type GraphQueryResult } from './query';
+export type { EdgeSetMeta, FollowGraphStore, StoredAccount } from './types';
+
+/**
+ * Selected with FOLLOW_GRAPH_STORE=memory|firestore|off (default: memory). Returns null
+ * when persistence is off, so callers must treat the graph as optional.
+ */
+export function getFollowGraphStore(): Promise<FollowGraphStore | null> {
+  return processSingleton('followGraphStore', async (): Promise<FollowGraphStore | null> => {
+    const storeName = process.env.FOLLOW_GRAPH_STORE || 'memory';
+    if (storeName === 'off') return null;
+    if (storeName === 'firestore') {
+      // Imported lazily so the memory store never pulls in the Firestore SDK.
+      const [{ FirestoreFollowGraphStore }, { getAdminFirestore }] = await Promise.all([
+        import('./firestore-store'),
+        import('@/lib/firebase-admin'),
+      ]);
+      return new FirestoreFollowGraphStore(getAdminFirestore());
+    }
+    if (storeName !== 'memory') {
+      console.warn(`Unknown FOLLOW_GRAPH_STORE "${storeName}"; falling back to the in-memory graph store.`);
+    }
+    return new MemoryFollowGraphStore();
+  });
+}
+
+/**
+ * Records a freshly fetched follow list: the owner and every listed account become nodes,
+ * and the list replaces the owner's `kind` edges. Failures are logged, never thrown, so a
+ * storage outage cannot fail the request that fetched the data.
+ */
+export async function persistFollowList(owner: SocialDataUser, kind: FollowListKind, list: FollowList, fetchedAt: number): Promise<void> {
+  try {
+    const store = await getFollowGraphStore();
+    if (!store) return;
+    await store.upsertAccounts([owner, ...list.users], fetchedAt);
+    await store.replaceEdges(owner.id_str, kind, list.users.map((user) => user.id_str), { fetchedAt, isComplete: list.isComplete });
+    console.log(`Persisted ${list.users.length} ${kind} edges for ${owner.id_str} to the ${store.name} graph store.`);
+  } catch (error) {
+    console.warn(`Failed to persist ${kind} of ${owner.id_str} to the graph store:`, error);
+  }
+}
@@ -0,0 +1,74 @@
+import type { FollowListKind, SocialDataUser } from '@/lib/socialdata';
+import type { EdgeSetMeta, FollowGraphStore, StoredAccount } from './types';
+
+/** Process-local store for development and the fixture provider; lost on restart. */
+export class MemoryFollowGraphStore implements FollowGraphStore {
+  readonly name = 'memory';
+  private readonly accounts = new Map<string, StoredAccount>();
+  /** followerId -> followeeIds */
+  private readonly outgoing = new Map<string, Set<string>>();
+  /** followeeId -> followerIds */
+  private readonly incoming = new Map<string, Set<string>>();
+  private readonly edgeSets = new Map<string, EdgeSetMeta>();
+
+  async upsertAccounts(users: SocialDataUser[], fetchedAt: number): Promise<void> {
+    for (const user of users) {
+      const existing = this.accounts.get(user.id_str);
+      if (existing && existing.updatedAt > fetchedAt) continue;
+      this.accounts.set(user.id_str, { ...user, handleLower: user.screen_name.toLowerCase(), updatedAt: fetchedAt });
+    }
+  }
+
+  private addEdge(followerId: string, followeeId: string) {
+    if (!this.outgoing.has(followerId)) this.outgoing.set(followerId, new Set());
+    if (!this.incoming.has(followeeId)) this.incoming.set(followeeId, new Set());
+    this.outgoing.get(followerId)!.add(followeeId);
+    this.incoming.get(followeeId)!.add(followerId);
+  }
+
+  private removeEdge(followerId: string, followeeId: string) {
+    this.outgoing.get(followerId)?.delete(followeeId);
+    this.incoming.get(followeeId)?.delete(followerId);
+  }
+
+  async replaceEdges(accountId: string, kind: FollowListKind, neighbourIds: string[], meta: { fetchedAt: number; isComplete: boolean }): Promise<void> {
+    const next = new Set(neighbourIds);
+    const edge = (neighbourId: string): [string, string] => kind === 'followings' ? [accountId, neighbourId] : [neighbourId, accountId];
+
+    if (meta.isComplete) {
+      for (const neighbourId of await this.listNeighbourIds(accountId, kind)) {
+        if (!next.has(neighbourId)) this.removeEdge(...edge(neighbourId));
+      }
+    }
+    for (const neighbourId of next) this.addEdge(...edge(neighbourId));
+    this.edgeSets.set(`${accountId}_${kind}`, { accountId, kind, fetchedAt: meta.fetchedAt, count: next.size, isComplete: meta.isComplete });
+  }
+
+  async getAccount(id: string): Promise<StoredAccount | null> {
+    return this.accounts.get(id) ?? null;
+  }
+
+  async findAccountByHandle(handle: string): Promise<StoredAccount | null> {
+    const handleLower = handle.toLowerCase();
+    for (const account of this.accounts.values()) {
+      if (account.handleLower === handleLower) return account;
+    }
+    return null;
+  }
+
+  async getAccounts(ids: string[]): Promise<StoredAccount[]> {
+    return ids.map((id) => this.accounts.get(id)).filter((account): account is StoredAccount => Boolean(account));
+  }
+
+  async listAccounts(limit = 1000): Promise<StoredAccount[]> {
+    return [...this.accounts.values()].slice(0, limit);
+  }
+
+  async listNeighbourIds(accountId: string, kind: FollowListKind): Promise<string[]> {
+    return [...((kind === 'followings' ? this.outgoing : this.incoming).get(accountId) ?? [])];
+  }
+
+  async getEdgeSetMeta(accountId: string, kind: FollowListKind): Promise<EdgeSetMeta | null> {
+    return this.edgeSets.get(`${accountId}_${kind}`) ?? null;
+  }
+}
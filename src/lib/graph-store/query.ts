@@ -0,0 +1,106 @@
+import { DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT, type GraphQuery } from '@/lib/graph-questions';
+import type { CategoryScore } from '@/lib/segments';
+import { toProfile, type XProfile } from '@/lib/socialdata';
+import type { FollowGraphStore } from './types';
+
+/** Accounts scanned when a query has no anchor handles to intersect. */
+const MAX_UNANCHORED_SCAN = 5000;
+/** Category filters classify at most this many candidates, most followed first. */
+const MAX_CATEGORIZED_CANDIDATES = 200;
+const MIN_CATEGORY_CONFIDENCE = 0.5;
+
+export interface GraphQueryMatch {
+  profile: XProfile;
+  /** Set when the query filtered by category. */
+  categories: CategoryScore[] | null;
+}
+
+export interface GraphQueryResult {
+  matches: GraphQueryMatch[];
+  totalMatches: number;
+  /** Why the result may be incomplete, e.g. an anchor whose followings were never fetched. */
+  notes: string[];
+}
+
+/** Resolves category scores for `profiles`, keyed by id_str. */
+export type CategorizeProfiles = (profiles: XProfile[]) => Promise<Map<string, CategoryScore[]>>;
+
+function intersectAll(sets: Set<string>[]): Set<string> {
+  const [first, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+  return new Set([...(first ?? [])].filter((id) => rest.every((set) => set.has(id))));
+}
+
+/**
+ * Runs `query` against the stored graph. Only what earlier lookups stored can match, so the
+ * notes name anchors with missing or truncated lists instead of failing.
+ */
+export async function runGraphQuery(
+  store: FollowGraphStore,
+  query: GraphQuery,
+  { categorize }: { categorize?: CategorizeProfiles } = {},
+): Promise<GraphQueryResult> {
+  const notes: string[] = [];
+  const anchors = [
+    ...(query.followedByAll ?? []).map((handle) => ({ handle, kind: 'followings' as const })),
+    ...(query.followingAll ?? []).map((handle) => ({ handle, kind: 'followers' as const })),
+  ];
+
+  const neighbourSets: Set<string>[] = [];
+  const anchorIds = new Set<string>();
+  for (const { handle, kind } of anchors) {
+    const account = await store.findAccountByHandle(handle.replace(/^@/, ''));
+    if (!account) {
+      notes.push(`@${handle.replace(/^@/, '')} is not in the stored graph yet; look it up first.`);
+      return { matches: [], totalMatches: 0, notes };
+    }
+    anchorIds.add(account.id_str);
+    const meta = await store.getEdgeSetMeta(account.id_str, kind);
+    if (kind === 'followings' && !meta) {
+      notes.push(`The followings of @${account.screen_name} have not been fetched yet.`);
+    } else if (meta && !meta.isComplete) {
+      notes.push(`The stored ${kind} of @${account.screen_name} are truncated, so some matches may be missing.`);
+    }
+    neighbourSets.push(new Set(await store.listNeighbourIds(account.id_str, kind)));
+  }
+
+  const candidates = anchors.length > 0
+    ? await store.getAccounts([...intersectAll(neighbourSets)].filter((id) => !anchorIds.has(id)))
+    : await store.listAccounts(MAX_UNANCHORED_SCAN);
+  if (anchors.length === 0 && candidates.length === MAX_UNANCHORED_SCAN) {
+    notes.push(`Only the first ${MAX_UNANCHORED_SCAN} stored accounts were searched; name an account to narrow the query.`);
+  }
+
+  const keywords = (query.bioKeywords ?? []).map((keyword) => keyword.toLowerCase()).filter(Boolean);
+  let profiles = candidates
+    .map(toProfile)
+    .filter((profile) => query.minFollowers === undefined || profile.followersCount >= query.minFollowers)
+    .filter((profile) => query.maxFollowers === undefined || profile.followersCount <= query.maxFollowers)
+    .filter((profile) => keywords.length === 0 || keywords.some((keyword) => `${profile.name} ${profile.bio}`.toLowerCase().includes(keyword)))
+    .sort((a, b) => b.followersCount - a.followersCount);
+
+  let categoriesById: Map<string, CategoryScore[]> | null = null;
+  if (query.categories?.length) {
+    if (!categorize) {
+      notes.push('Category filters are unavailable here and were ignored.');
+    } else {
+      if (profiles.length > MAX_CATEGORIZED_CANDIDATES) {
+        notes.push(`Only the ${MAX_CATEGORIZED_CANDIDATES} most followed of ${profiles.length} candidates were checked for categories.`);
+        profiles = profiles.slice(0, MAX_CATEGORIZED_CANDIDATES);
+      }
+      categoriesById = await categorize(profiles);
+      const wanted = new Set(query.categories);
+      profiles = profiles.filter((profile) => (categoriesById!.get(profile.id_str) ?? [])
+        .some((score) => wanted.has(score.category) && score.confidence >= MIN_CATEGORY_CONFIDENCE));
+    }
+  }
+
+  const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_QUERY_LIMIT), MAX_QUERY_LIMIT);
+  return {
+    matches: profiles.slice(0, limit).map((profile) => ({
+      profile,
+      categories: categoriesById?.get(profile.id_str) ?? null,
+    })),
+    totalMatches: profiles.length,
+    notes,
+  };
+}
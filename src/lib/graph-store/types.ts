@@ -0,0 +1,38 @@
+import type { FollowListKind, SocialDataUser } from '@/lib/socialdata';
+
+/** An account node: the latest profile we have seen, plus bookkeeping. */
+export type StoredAccount = SocialDataUser & {
+  handleLower: string;
+  /** Epoch milliseconds of the fetch that produced this profile. */
+  updatedAt: number;
+};
+
+/** Metadata about the last full write of one account's follow list. */
+export interface EdgeSetMeta {
+  accountId: string;
+  kind: FollowListKind;
+  fetchedAt: number;
+  count: number;
+  /** False when the list was truncated; missing edges were then kept rather than removed. */
+  isComplete: boolean;
+}
+
+/**
+ * Follow graph persisted across requests. Edges are directed follower -> followee; an
+ * account's `followings` are its outgoing edges and its `followers` its incoming ones.
+ */
+export interface FollowGraphStore {
+  readonly name: string;
+  upsertAccounts(users: SocialDataUser[], fetchedAt: number): Promise<void>;
+  /**
+   * Makes `neighbourIds` the `kind` edges of `accountId`. With `isComplete` false the
+   * edges are only added: a truncated list cannot prove an edge went away.
+   */
+  replaceEdges(accountId: string, kind: FollowListKind, neighbourIds: string[], meta: { fetchedAt: number; isComplete: boolean }): Promise<void>;
+  getAccount(id: string): Promise<StoredAccount | null>;
+  findAccountByHandle(handle: string): Promise<StoredAccount | null>;
+  getAccounts(ids: string[]): Promise<StoredAccount[]>;
+  listAccounts(limit?: number): Promise<StoredAccount[]>;
+  listNeighbourIds(accountId: string, kind: FollowListKind): Promise<string[]>;
+  getEdgeSetMeta(accountId: string, kind: FollowListKind): Promise<EdgeSetMeta | null>;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { findThreeHopPaths, findTwoHopPaths, rankTeamNeighbours, type AccountNetwork, type IntroAccount } from './intro-paths';
+
+function network(id: string, followings: string[], followers: string[] = []): AccountNetwork {
+  return { id, handle: id, followings: new Set(followings), followers: new Set(followers) };
+}
+
+const accounts = new Map<string, IntroAccount>(
+  ['c1', 'c2', 'c3', 'far'].map((id) => [id, { id, handle: id, followersCount: 0 }]),
+);
+
+describe('findTwoHopPaths', () => {
+  it('ranks connectors the target follows above ones that only follow the target', () => {
+    const me = network('me', ['c1', 'c2']);
+    const target = network('target', ['c1'], ['c2']);
+    const paths = findTwoHopPaths([me], target, accounts);
+    expect(paths.map((path) => path.connectorIds)).toEqual([['c1'], ['c2']]);
+    expect(paths[0].reasons).toEqual(['@me follows @c1', '@target follows @c1']);
+  });
+
+  it('skips accounts outside the target network and the team itself', () => {
+    const me = network('me', ['c3', 'target']);
+    const target = network('target', ['me']);
+    expect(findTwoHopPaths([me], target, accounts)).toEqual([]);
+  });
+
+  it('scores ties to the team by the best-connected member', () => {
+    const alice = network('alice', ['c1'], ['c1']);
+    const bob = network('bob', ['c2']);
+    const target = network('target', ['c1', 'c2']);
+    const [best] = findTwoHopPaths([alice, bob], target, accounts);
+    expect(best.connectorIds).toEqual(['c1']);
+  });
+});
+
+describe('findThreeHopPaths', () => {
+  it('chains a team connector to a second connector on the target side, discounted', () => {
+    const me = network('me', ['c1']);
+    const target = network('target', ['c2']);
+    const c1 = network('c1', ['c2', 'far']);
+    const [path, ...rest] = findThreeHopPaths([me], target, [c1], accounts);
+    expect(rest).toEqual([]);
+    expect(path.connectorIds).toEqual(['c1', 'c2']);
+    expect(path.hops).toBe(3);
+    expect(path.score).toBeCloseTo(1 * 2 * 0.5);
+  });
+
+  it('ignores intermediates with no tie to the team', () => {
+    const me = network('me', []);
+    const target = network('target', ['c2']);
+    expect(findThreeHopPaths([me], target, [network('c1', ['c2'])], accounts)).toEqual([]);
+  });
+});
+
+describe('rankTeamNeighbours', () => {
+  it('orders neighbours by their ties to the team and drops excluded ids', () => {
+    const me = network('me', ['c1', 'c2'], ['c2']);
+    expect(rankTeamNeighbours([me], accounts, new Set(['c1'])).map(({ id }) => id)).toEqual(['c2']);
+  });
+});
@@ -0,0 +1,157 @@
+/** One side of an intro: who an account follows and who follows it, by id_str. */
+export interface AccountNetwork {
+  id: string;
+  handle: string;
+  followings: Set<string>;
+  followers: Set<string>;
+}
+
+export interface IntroAccount {
+  id: string;
+  handle: string;
+  followersCount: number;
+}
+
+export interface IntroPath {
+  hops: 2 | 3;
+  /** Intermediaries in order from the team towards the target. */
+  connectorIds: string[];
+  score: number;
+  reasons: string[];
+}
+
+// Attention flowing *to* the requester matters more than outgoing follows: a connector who
+// follows you knows who you are, and a target who follows the connector reads them.
+const WEIGHTS = {
+  teamFollowsConnector: 1,
+  connectorFollowsTeam: 1.5,
+  connectorFollowsTarget: 1,
+  targetFollowsConnector: 2,
+  mutualBonus: 1,
+  threeHopDiscount: 0.5,
+};
+
+function teamSideScore(connectorId: string, team: AccountNetwork[]) {
+  let best = 0;
+  const followedBy: string[] = [];
+  const follows: string[] = [];
+  for (const member of team) {
+    const memberFollows = member.followings.has(connectorId);
+    const followsMember = member.followers.has(connectorId);
+    if (memberFollows) followedBy.push(member.handle);
+    if (followsMember) follows.push(member.handle);
+    const score =
+      (memberFollows ? WEIGHTS.teamFollowsConnector : 0) +
+      (followsMember ? WEIGHTS.connectorFollowsTeam : 0) +
+      (memberFollows && followsMember ? WEIGHTS.mutualBonus : 0);
+    best = Math.max(best, score);
+  }
+  return { score: best, followedBy, follows };
+}
+
+function targetSideScore(connectorId: string, target: AccountNetwork) {
+  const followsTarget = target.followers.has(connectorId);
+  const followedByTarget = target.followings.has(connectorId);
+  const score =
+    (followsTarget ? WEIGHTS.connectorFollowsTarget : 0) +
+    (followedByTarget ? WEIGHTS.targetFollowsConnector : 0) +
+    (followsTarget && followedByTarget ? WEIGHTS.mutualBonus : 0);
+  return { score, followsTarget, followedByTarget };
+}
+
+/** Small tiebreaker: a connector with a large audience is usually better placed to make intros. */
+function reachScore(account: IntroAccount | undefined): number {
+  return account ? Math.log10(account.followersCount + 1) / 4 : 0;
+}
+
+function teamReasons(handle: string, side: { followedBy: string[]; follows: string[] }): string[] {
+  return [
+    ...side.followedBy.map((member) => `@${member} follows @${handle}`),
+    ...side.follows.map((member) => `@${handle} follows @${member}`),
+  ];
+}
+
+function targetReasons(handle: string, targetHandle: string, side: { followsTarget: boolean; followedByTarget: boolean }): string[] {
+  return [
+    ...(side.followedByTarget ? [`@${targetHandle} follows @${handle}`] : []),
+    ...(side.followsTarget ? [`@${handle} follows @${targetHandle}`] : []),
+  ];
+}
+
+function networkOf(side: AccountNetwork): Set<string> {
+  return new Set([...side.followings, ...side.followers]);
+}
+
+/** Every account adjacent to at least one team member, scored by its ties to the team. */
+export function rankTeamNeighbours(team: AccountNetwork[], accounts: Map<string, IntroAccount>, excludeIds: Set<string>) {
+  const neighbours = new Set(team.flatMap((member) => [...networkOf(member)]));
+  return [...neighbours]
+    .filter((id) => !excludeIds.has(id))
+    .map((id) => ({ id, score: teamSideScore(id, team).score + reachScore(accounts.get(id)) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/** me -> connector -> target, where the connector is adjacent to both sides. */
+export function findTwoHopPaths(
+  team: AccountNetwork[],
+  target: AccountNetwork,
+  accounts: Map<string, IntroAccount>,
+): IntroPath[] {
+  const excludeIds = new Set([target.id, ...team.map((member) => member.id)]);
+  const targetNetwork = networkOf(target);
+  const paths: IntroPath[] = [];
+
+  for (const id of new Set(team.flatMap((member) => [...networkOf(member)]))) {
+    if (excludeIds.has(id) || !targetNetwork.has(id)) continue;
+    const teamSide = teamSideScore(id, team);
+    const targetSide = targetSideScore(id, target);
+    const account = accounts.get(id);
+    const handle = account?.handle ?? id;
+    paths.push({
+      hops: 2,
+      connectorIds: [id],
+      score: teamSide.score * targetSide.score + reachScore(account),
+      reasons: [...teamReasons(handle, teamSide), ...targetReasons(handle, target.handle, targetSide)],
+    });
+  }
+  return paths.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * me -> first -> second -> target, using the followings of `intermediates` (accounts from
+ * the team's network whose lists were fetched) to find a second connector on the target side.
+ */
+export function findThreeHopPaths(
+  team: AccountNetwork[],
+  target: AccountNetwork,
+  intermediates: AccountNetwork[],
+  accounts: Map<string, IntroAccount>,
+): IntroPath[] {
+  const excludeIds = new Set([target.id, ...team.map((member) => member.id)]);
+  const targetNetwork = networkOf(target);
+  const paths: IntroPath[] = [];
+
+  for (const first of intermediates) {
+    if (excludeIds.has(first.id)) continue;
+    const firstSide = teamSideScore(first.id, team);
+    if (firstSide.score === 0) continue;
+
+    for (const secondId of first.followings) {
+      if (excludeIds.has(secondId) || secondId === first.id || !targetNetwork.has(secondId)) continue;
+      const secondSide = targetSideScore(secondId, target);
+      const second = accounts.get(secondId);
+      const secondHandle = second?.handle ?? secondId;
+      paths.push({
+        hops: 3,
+        connectorIds: [first.id, secondId],
+        score: firstSide.score * secondSide.score * WEIGHTS.threeHopDiscount + reachScore(second),
+        reasons: [
+          ...teamReasons(first.handle, firstSide),
+          `@${first.handle} follows @${secondHandle}`,
+          ...targetReasons(secondHandle, target.handle, secondSide),
+        ],
+      });
+    }
+  }
+  return paths.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,56 @@
+/** Set overlap between several accounts' follow lists, keyed by id_str. */
+export interface OverlapStats<T> {
+  /** Members present in every list. */
+  intersection: T[];
+  /** Per list (same order as the input), members that appear in no other list. */
+  uniqueTo: T[][];
+  counts: number[];
+  unionCount: number;
+  /** |intersection| / |union|; 0 when every list is empty. */
+  jaccard: number;
+  pairwise: { a: number; b: number; sharedCount: number; jaccard: number }[];
+}
+
+function jaccardIndex(shared: number, union: number): number {
+  return union === 0 ? 0 : shared / union;
+}
+
+export function computeOverlap<T>(lists: T[][], idOf: (item: T) => string): OverlapStats<T> {
+  const idSets = lists.map((list) => new Set(list.map(idOf)));
+  const membership = new Map<string, number>();
+  const byId = new Map<string, T>();
+
+  idSets.forEach((ids, index) => {
+    for (const id of ids) membership.set(id, (membership.get(id) ?? 0) + 1);
+    for (const item of lists[index]) if (!byId.has(idOf(item))) byId.set(idOf(item), item);
+  });
+
+  const intersection = [...membership].filter(([, count]) => count === lists.length).map(([id]) => byId.get(id)!);
+  const uniqueTo = lists.map((list) => {
+    const seen = new Set<string>();
+    return list.filter((item) => {
+      const id = idOf(item);
+      if (membership.get(id) !== 1 || seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  });
+
+  const pairwise: OverlapStats<T>['pairwise'] = [];
+  for (let a = 0; a < idSets.length; a++) {
+    for (let b = a + 1; b < idSets.length; b++) {
+      let sharedCount = 0;
+      for (const id of idSets[a]) if (idSets[b].has(id)) sharedCount++;
+      pairwise.push({ a, b, sharedCount, jaccard: jaccardIndex(sharedCount, idSets[a].size + idSets[b].size - sharedCount) });
+    }
+  }
+
+  return {
+    intersection,
+    uniqueTo,
+    counts: idSets.map((ids) => ids.size),
+    unionCount: membership.size,
+    jaccard: jaccardIndex(intersection.length, membership.size),
+    pairwise,
+  };
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { diffIds } from './snapshot-diff';
+
+describe('diffIds', () => {
+  it('lists additions in `after` order and removals in `before` order', () => {
+    expect(diffIds(['1', '2', '3'], ['4', '2', '5'])).toEqual({ added: ['4', '5'], removed: ['1', '3'], unchangedCount: 1 });
+  });
+
+  it('ignores duplicates', () => {
+    expect(diffIds(['1', '1'], ['1', '2', '2'])).toEqual({ added: ['2'], removed: [], unchangedCount: 1 });
+  });
+
+  it('handles empty snapshots', () => {
+    expect(diffIds([], ['1'])).toEqual({ added: ['1'], removed: [], unchangedCount: 0 });
+    expect(diffIds(['1'], [])).toEqual({ added: [], removed: ['1'], unchangedCount: 0 });
+  });
+});
@@ -0,0 +1,16 @@
+/** Change between two id lists, e.g. an account's followings at two points in time. */
+export interface IdDiff {
+  /** In `after` but not `before`, in `after` order. */
+  added: string[];
+  /** In `before` but not `after`, in `before` order. */
+  removed: string[];
+  unchangedCount: number;
+}
+
+export function diffIds(before: string[], after: string[]): IdDiff {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  const added = [...afterSet].filter((id) => !beforeSet.has(id));
+  const removed = [...beforeSet].filter((id) => !afterSet.has(id));
+  return { added, removed, unchangedCount: afterSet.size - added.length };
+}
@@ -0,0 +1,19 @@
+// Shared by the insights route and the client: keep this file free of server-only imports.
+import type { FollowingInterests } from '@/ai/flows/summarize-following-interests';
+import type { XProfile } from '@/lib/socialdata';
+
+/** Followings sent to the model, most followed first; bios beyond this add cost, not signal. */
+export const MAX_INSIGHT_SAMPLE = 200;
+
+export interface InsightTheme extends Omit<FollowingInterests['themes'][number], 'notableAccounts'> {
+  notableAccounts: XProfile[];
+}
+
+export interface InsightsResponse {
+  account: XProfile;
+  insights: Omit<FollowingInterests, 'themes'> & { themes: InsightTheme[] };
+  sampledCount: number;
+  totalCount: number;
+  isComplete: boolean;
+  generatedAt: string;
+}
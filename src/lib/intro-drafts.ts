@@ -0,0 +1,34 @@
+// Shared by the intro-draft route and the client: keep this file free of server-only imports.
+import type { XProfile } from '@/lib/socialdata';
+
+export const INTRO_TONES = ['friendly', 'professional', 'casual'] as const;
+export type IntroTone = (typeof INTRO_TONES)[number];
+
+export const INTRO_LENGTHS = ['short', 'medium', 'long'] as const;
+export type IntroLength = (typeof INTRO_LENGTHS)[number];
+
+export const MAX_INTRO_GOAL_LENGTH = 500;
+
+/** Body of POST /api/intro-draft; the three accounts are handles or `id:` refs. */
+export interface IntroDraftRequest {
+  requester: string;
+  connector: string;
+  target: string;
+  goal: string;
+  tone: IntroTone;
+  length: IntroLength;
+}
+
+export interface IntroDraft {
+  /** Sent to the connector: asks whether they would check with the target first. */
+  ask: string;
+  /** Self-contained note the connector can forward to the target as is. */
+  blurb: string;
+}
+
+export interface IntroDraftResponse {
+  requester: XProfile;
+  connector: XProfile;
+  target: XProfile;
+  draft: IntroDraft;
+}
@@ -0,0 +1,23 @@
+// Shared by the intro-paths route and the client: keep this file free of server-only imports.
+import type { XProfile } from '@/lib/socialdata';
+
+export const MAX_TEAM_SIZE = 5;
+export const MAX_INTERMEDIATES = 25;
+export const DEFAULT_INTERMEDIATES = 10;
+export const MAX_RETURNED_PATHS = 25;
+
+export interface IntroPathsResponse {
+  team: XProfile[];
+  target: XProfile;
+  /** Existing direct ties between each team member and the target. */
+  direct: { handle: string; followsTarget: boolean; followedByTarget: boolean }[];
+  /** Best first; `connectors` are ordered from the team towards the target. */
+  paths: { hops: 2 | 3; connectors: XProfile[]; score: number; reasons: string[] }[];
+  stats: {
+    twoHopCount: number;
+    threeHopCount: number;
+    intermediatesExplored: number;
+    /** True when any list involved hit the pagination limits, so paths may be missing. */
+    incompleteLists: boolean;
+  };
+}
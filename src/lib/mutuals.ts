@@ -0,0 +1,20 @@
+// Shared by the mutual-followings route and the client: keep this file free of server-only imports.
+import type { XProfile } from '@/lib/socialdata';
+
+export const MIN_MUTUAL_ACCOUNTS = 2;
+export const MAX_MUTUAL_ACCOUNTS = 5;
+
+export interface MutualFollowingsResponse {
+  accounts: { input: string; user: XProfile; totalCount: number; isComplete: boolean }[];
+  /** Accounts followed by every input account. */
+  intersection: XProfile[];
+  /** Per input account (same order), followings no other input account follows. */
+  uniqueTo: XProfile[][];
+  stats: {
+    counts: number[];
+    intersectionCount: number;
+    unionCount: number;
+    jaccard: number;
+    pairwise: { a: number; b: number; sharedCount: number; jaccard: number }[];
+  };
+}
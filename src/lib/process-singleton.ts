@@ -0,0 +1,15 @@
+const REGISTRY_KEY = Symbol.for('x-following-retriever.singletons');
+
+/**
+ * Next bundles each route on its own, so module-level state is not shared between routes
+ * (and is reset by dev reloads). State that must be process-wide, like the in-memory stores,
+ * lives in a registry on globalThis instead.
+ */
+export function processSingleton<T>(key: string, create: () => T): T {
+  const scope = globalThis as typeof globalThis & { [REGISTRY_KEY]?: Map<string, unknown> };
+  const registry = (scope[REGISTRY_KEY] ??= new Map<string, unknown>());
+  if (!registry.has(key)) {
+    registry.set(key, create());
+  }
+  return registry.get(key) as T;
+}
@@ -0,0 +1,30 @@
+import { Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { takeToken } from './token-bucket';
+import type { RateLimitDecision, RateLimitStore, TokenBucketPolicy, TokenBucketState } from './types';
+
+const BUCKETS = 'rateLimitBuckets';
+
+/**
+ * One document per bucket, `rateLimitBuckets/{key}`, updated in a transaction so every instance
+ * draws from the same bucket. `expiresAt` is meant for a Firestore TTL policy that removes idle buckets.
+ * Only the server touches the buckets: firestore.rules denies clients, so no one can refill their own.
+ */
+export class FirestoreRateLimitStore implements RateLimitStore {
+  readonly name = 'firestore';
+
+  constructor(private readonly db: Firestore) {}
+
+  async take(key: string, policy: TokenBucketPolicy, now: number): Promise<RateLimitDecision> {
+    const ref = this.db.collection(BUCKETS).doc(encodeURIComponent(key));
+    return this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const previous = snapshot.exists ? (snapshot.data() as TokenBucketState) : undefined;
+      const { state, decision } = takeToken(previous, policy, now);
+      transaction.set(ref, {
+        ...state,
+        expiresAt: Timestamp.fromMillis(now + decision.resetSeconds * 1000),
+      });
+      return decision;
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import type { NextRequest } from 'next/server';
+import { processSingleton } from '@/lib/process-singleton';
+import { MemoryRateLimitStore } from './memory-store';
+import type { RateLimitDecision, RateLimitStore, TokenBucketPolicy } from './types';
+
+export { MemoryRateLimitStore } from './memory-store';
+export type { RateLimitDecision, RateLimitStore, TokenBucketPolicy } from './types';
+
+/** Requests are limited per client IP before authentication and per uid after it. */
+export type RateLimitScope = 'ip' | 'user';
+
+const DEFAULT_REQUESTS_PER_MINUTE: Record<RateLimitScope, number> = { ip: 120, user: 60 };
+
+/** Thrown (and mapped to RATE_LIMITED) when a request finds its bucket empty. */
+export class RateLimitExceededError extends Error {
+  constructor(readonly scope: RateLimitScope, readonly decision: RateLimitDecision) {
+    super(`Too many requests from this ${scope === 'ip' ? 'IP address' : 'user'}. Retry in ${decision.retryAfterSeconds} seconds.`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/** Selected with RATE_LIMIT_STORE=memory|firestore|off (default: memory); null when off. */
+export function getRateLimitStore(): Promise<RateLimitStore | null> {
+  return processSingleton('rateLimitStore', async (): Promise<RateLimitStore | null> => {
+    const kind = process.env.RATE_LIMIT_STORE ?? 'memory';
+    if (kind === 'off') return null;
+    if (kind === 'firestore') {
+      // Imported lazily so the memory store never pulls in the Firestore SDK.
+      const [{ FirestoreRateLimitStore }, { getAdminFirestore }] = await Promise.all([
+        import('./firestore-store'),
+        import('@/lib/firebase-admin'),
+      ]);
+      return new FirestoreRateLimitStore(getAdminFirestore());
+    }
+    return new MemoryRateLimitStore();
+  });
+}
+
+/** A burst of RATE_LIMIT_IP_PER_MINUTE / RATE_LIMIT_USER_PER_MINUTE requests, refilled over a minute. */
+export function getRateLimitPolicy(scope: RateLimitScope): TokenBucketPolicy {
+  const configured = Number(process.env[scope === 'ip' ? 'RATE_LIMIT_IP_PER_MINUTE' : 'RATE_LIMIT_USER_PER_MINUTE']);
+  const perMinute = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_REQUESTS_PER_MINUTE[scope];
+  return { capacity: perMinute, refillPerSecond: perMinute / 60 };
+}
+
+/**
+ * The caller's IP from X-Forwarded-For. Clients can prepend their own entries, so it counts
+ * RATE_LIMIT_PROXY_HOPS (default 1, the Cloud Run front end) entries from the right.
+ */
+export function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map((entry) => entry.trim()).filter(Boolean) ?? [];
+  const hops = Number(process.env.RATE_LIMIT_PROXY_HOPS);
+  const index = forwarded.length - (Number.isInteger(hops) && hops > 0 ? hops : 1);
+  return forwarded[Math.max(0, index)] || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Takes a token from `scope`'s bucket for `id`. Resolves to null when rate limiting is off or the
+ * store fails, so an unavailable store never takes the API down with it.
+ */
+export async function takeRateLimitToken(scope: RateLimitScope, id: string): Promise<RateLimitDecision | null> {
+  try {
+    const store = await getRateLimitStore();
+    if (!store) return null;
+    const decision = await store.take(`${scope}:${id}`, getRateLimitPolicy(scope), Date.now());
+    if (!decision.allowed) {
+      console.warn(`Rate limited ${scope} ${id}; retry in ${decision.retryAfterSeconds}s.`);
+    }
+    return decision;
+  } catch (error) {
+    console.warn(`Rate limit check failed for ${scope} ${id}; allowing the request:`, (error as Error)?.message);
+    return null;
+  }
+}
+
+/** `RateLimit-*` headers (IETF draft) for the most constrained of `decisions`. */
+export function rateLimitHeaders(...decisions: (RateLimitDecision | null)[]): Record<string, string> {
+  const tightest = decisions
+    .filter((decision): decision is RateLimitDecision => decision !== null)
+    .sort((a, b) => a.remaining - b.remaining || b.resetSeconds - a.resetSeconds)[0];
+  if (!tightest) return {};
+  return {
+    'RateLimit-Limit': String(tightest.limit),
+    'RateLimit-Remaining': String(tightest.remaining),
+    'RateLimit-Reset': String(tightest.resetSeconds),
+    'RateLimit-Policy': `${tightest.limit};w=60`,
+  };
+}
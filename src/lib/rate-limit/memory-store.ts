@@ -0,0 +1,24 @@
+import { takeToken } from './token-bucket';
+import type { RateLimitDecision, RateLimitStore, TokenBucketPolicy, TokenBucketState } from './types';
+
+/** Buckets for a single instance; each Cloud Run instance would enforce its own limit. */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly buckets = new Map<string, TokenBucketState>();
+
+  async take(key: string, policy: TokenBucketPolicy, now: number): Promise<RateLimitDecision> {
+    const { state, decision } = takeToken(this.buckets.get(key), policy, now);
+    this.buckets.set(key, state);
+    this.evictFullBuckets(policy, now);
+    return decision;
+  }
+
+  /** Buckets that have refilled completely carry no information, so the map only holds active clients. */
+  private evictFullBuckets(policy: TokenBucketPolicy, now: number) {
+    if (this.buckets.size < 10_000) return;
+    const fullAfterMs = (policy.capacity / policy.refillPerSecond) * 1000;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= fullAfterMs) this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { takeToken } from './token-bucket';
+
+const policy = { capacity: 3, refillPerSecond: 1 };
+
+describe('takeToken', () => {
+  it('starts a new bucket full and takes one token', () => {
+    const { state, decision } = takeToken(undefined, policy, 1_000);
+    expect(state).toEqual({ tokens: 2, updatedAt: 1_000 });
+    expect(decision).toEqual({ allowed: true, limit: 3, remaining: 2, resetSeconds: 1, retryAfterSeconds: 0 });
+  });
+
+  it('refuses once the bucket is empty and says when the next token arrives', () => {
+    const { decision } = takeToken({ tokens: 0.25, updatedAt: 1_000 }, policy, 1_000);
+    expect(decision.allowed).toBe(false);
+    expect(decision.remaining).toBe(0);
+    expect(decision.retryAfterSeconds).toBe(1);
+    expect(decision.resetSeconds).toBe(3);
+  });
+
+  it('refills with elapsed time, up to the capacity', () => {
+    expect(takeToken({ tokens: 0, updatedAt: 0 }, policy, 1_500).state.tokens).toBeCloseTo(0.5);
+    expect(takeToken({ tokens: 0, updatedAt: 0 }, policy, 60_000).state.tokens).toBe(2);
+  });
+
+  it('ignores clocks that go backwards', () => {
+    expect(takeToken({ tokens: 1, updatedAt: 5_000 }, policy, 4_000).state.tokens).toBe(0);
+  });
+});
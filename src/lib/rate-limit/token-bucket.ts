@@ -0,0 +1,24 @@
+import type { RateLimitDecision, TokenBucketPolicy, TokenBucketState } from './types';
+
+/** Pure token-bucket step shared by the stores: refill `state` up to `now`, then try to take one token. */
+export function takeToken(
+  state: TokenBucketState | undefined,
+  policy: TokenBucketPolicy,
+  now: number,
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state ? Math.min(policy.capacity, state.tokens + elapsedSeconds * policy.refillPerSecond) : policy.capacity;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: policy.capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((policy.capacity - tokens) / policy.refillPerSecond),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / policy.refillPerSecond)),
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/** A bucket holds up to `capacity` tokens and regains `refillPerSecond` of them every second. */
+export interface TokenBucketPolicy {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  /** Epoch ms of the last refill. */
+  updatedAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+  /** Seconds until the next token; 0 when the request was allowed. */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  /** Atomically refills the bucket at `key` and takes one token from it if there is one. */
+  take(key: string, policy: TokenBucketPolicy, now: number): Promise<RateLimitDecision>;
+}
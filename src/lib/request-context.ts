@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { processSingleton } from '@/lib/process-singleton';
+import type { PlanTier } from '@/lib/usage';
+
+/** Who is behind the request being handled, available anywhere below the route handler. */
+export interface RequestContext {
+  uid: string;
+  email: string | null;
+  /** From the `workspaceId` custom claim; a user without one is their own workspace. */
+  workspaceId: string;
+  /** From the `plan` custom claim; defaults to `free`. */
+  plan: PlanTier;
+  requestId: string;
+}
+
+const storage = processSingleton('requestContextStorage', () => new AsyncLocalStorage<RequestContext>());
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/** Undefined outside an authenticated request, e.g. in scripts and scheduled jobs. */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
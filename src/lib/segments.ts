@@ -0,0 +1,46 @@
+// Shared by the segments route and the client: keep this file free of server-only imports.
+
+/** `other` also covers bots, parody and inactive accounts. */
+export const ACCOUNT_CATEGORIES = ['investor', 'founder', 'journalist', 'engineer', 'brand', 'other'] as const;
+export type AccountCategory = (typeof ACCOUNT_CATEGORIES)[number];
+
+export const ACCOUNT_CATEGORY_LABELS: Record<AccountCategory, string> = {
+  investor: 'Investor',
+  founder: 'Founder',
+  journalist: 'Journalist',
+  engineer: 'Engineer',
+  brand: 'Brand',
+  other: 'Bot / other',
+};
+
+export const MAX_SEGMENT_IDS = 200;
+
+export interface CategoryScore {
+  category: AccountCategory;
+  /** 0-1, as judged by the model. */
+  confidence: number;
+}
+
+export interface AccountClassification {
+  id_str: string;
+  /** Most confident first; never empty. */
+  categories: CategoryScore[];
+  classifiedAt: string;
+}
+
+/** Body of POST /api/segments. */
+export interface SegmentsRequest {
+  ids: string[];
+}
+
+export interface SegmentsResponse {
+  classifications: AccountClassification[];
+  /** Requested ids with no stored profile, e.g. from a lookup made before the graph store was on. */
+  missingIds: string[];
+  /** How many classifications came from the cache rather than the model. */
+  cachedCount: number;
+}
+
+export function primaryCategory(classification: AccountClassification): AccountCategory {
+  return classification.categories[0]?.category ?? 'other';
+}
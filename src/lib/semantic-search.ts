@@ -0,0 +1,33 @@
+// Shared by the semantic-search route and the client: keep this file free of server-only imports.
+import type { XProfile } from '@/lib/socialdata';
+
+export const MAX_SEMANTIC_QUERY_LENGTH = 200;
+export const DEFAULT_SEMANTIC_RESULTS = 20;
+export const MAX_SEMANTIC_RESULTS = 50;
+
+/** Response of POST /api/semantic-search/index. */
+export interface BioIndexResponse {
+  embedded: number;
+  /** Stored bios still waiting to be embedded; the next run continues with them. */
+  pendingCount: number;
+  embedder: string;
+}
+
+export interface SemanticSearchResult {
+  profile: XProfile;
+  /** Cosine similarity between the query and the bio, from -1 to 1. */
+  score: number;
+}
+
+export interface SemanticSearchResponse {
+  query: string;
+  /** The account whose followings were searched. */
+  within: XProfile;
+  results: SemanticSearchResult[];
+  /** Accounts in scope with a bio to compare against. */
+  searchedCount: number;
+  /** Accounts in scope not embedded yet; the indexing job or a later search picks them up. */
+  pendingCount: number;
+  /** Which embedder produced the vectors, e.g. "googleai/text-embedding-004". */
+  embedder: string;
+}
@@ -0,0 +1,48 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import type { FollowingSnapshot, SnapshotStore, TrackedAccount } from './types';
+
+const TRACKED_ACCOUNTS = 'followingSnapshots';
+const SNAPSHOTS = 'snapshots';
+
+/**
+ * Snapshots live in `followingSnapshots/{accountId}/snapshots/{takenAt}`; the parent
+ * document records the latest snapshot so scheduled runs can list tracked accounts.
+ * Firestore caps documents at 1 MiB, roughly 40k ids per snapshot.
+ */
+export class FirestoreSnapshotStore implements SnapshotStore {
+  readonly name = 'firestore';
+
+  constructor(private readonly db: Firestore) {}
+
+  private accountRef(accountId: string) {
+    return this.db.collection(TRACKED_ACCOUNTS).doc(accountId);
+  }
+
+  async save(snapshot: Omit<FollowingSnapshot, 'id'>): Promise<FollowingSnapshot> {
+    const saved: FollowingSnapshot = { ...snapshot, id: String(snapshot.takenAt) };
+    const batch = this.db.batch();
+    batch.set(this.accountRef(saved.accountId).collection(SNAPSHOTS).doc(saved.id), saved);
+    batch.set(this.accountRef(saved.accountId), {
+      accountId: saved.accountId,
+      handle: saved.handle,
+      latestTakenAt: saved.takenAt,
+    } satisfies TrackedAccount);
+    await batch.commit();
+    return saved;
+  }
+
+  async get(accountId: string, snapshotId: string): Promise<FollowingSnapshot | null> {
+    const snapshot = await this.accountRef(accountId).collection(SNAPSHOTS).doc(snapshotId).get();
+    return snapshot.exists ? (snapshot.data() as FollowingSnapshot) : null;
+  }
+
+  async list(accountId: string): Promise<FollowingSnapshot[]> {
+    const snapshots = await this.accountRef(accountId).collection(SNAPSHOTS).orderBy('takenAt', 'desc').get();
+    return snapshots.docs.map((d) => d.data() as FollowingSnapshot);
+  }
+
+  async listTrackedAccounts(): Promise<TrackedAccount[]> {
+    const accounts = await this.db.collection(TRACKED_ACCOUNTS).get();
+    return accounts.docs.map((d) => d.data() as TrackedAccount);
+  }
+}
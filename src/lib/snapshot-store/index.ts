@@ -0,0 +1,136 @@
+import type { AccountRef } from '@/lib/account-input';
+import type { FollowGraphProvider } from '@/lib/follow-graph';
+import { DEFAULT_MAX_PAGES, DEFAULT_MAX_USERS, loadFollowList } from '@/lib/follow-list';
+import { diffIds } from '@/lib/graph/snapshot-diff';
+import { getFollowGraphStore } from '@/lib/graph-store';
+import { processSingleton } from '@/lib/process-singleton';
+import type { SnapshotDiff, SnapshotDiffEntry, SnapshotSummary } from '@/lib/snapshots';
+import { toProfile, type SocialDataUser } from '@/lib/socialdata';
+import { MemorySnapshotStore } from './memory-store';
+import type { FollowingSnapshot, SnapshotStore, SnapshotTrigger } from './types';
+
+export { MemorySnapshotStore } from './memory-store';
+export type { FollowingSnapshot, SnapshotStore, SnapshotTrigger, TrackedAccount } from './types';
+
+/** Selected with SNAPSHOT_STORE=memory|firestore (default: memory). */
+export function getSnapshotStore(): Promise<SnapshotStore> {
+  return processSingleton('snapshotStore', async (): Promise<SnapshotStore> => {
+    if (process.env.SNAPSHOT_STORE === 'firestore') {
+      // Imported lazily so the memory store never pulls in the Firestore SDK.
+      const [{ FirestoreSnapshotStore }, { getAdminFirestore }] = await Promise.all([
+        import('./firestore-store'),
+        import('@/lib/firebase-admin'),
+      ]);
+      return new FirestoreSnapshotStore(getAdminFirestore());
+    }
+    return new MemorySnapshotStore();
+  });
+}
+
+/**
+ * Fetches `account`'s followings fresh (bypassing the cache, so a snapshot always reflects
+ * the moment it was taken) and records them. Returns the new snapshot and the account's
+ * full history, newest first, starting with it.
+ */
+export async function takeFollowingSnapshot(
+  provider: FollowGraphProvider,
+  account: AccountRef,
+  trigger: SnapshotTrigger,
+): Promise<{ user: SocialDataUser; snapshot: FollowingSnapshot; history: FollowingSnapshot[] }> {
+  const result = await loadFollowList(provider, account, 'followings', { maxPages: DEFAULT_MAX_PAGES, maxUsers: DEFAULT_MAX_USERS }, { refresh: true });
+  const store = await getSnapshotStore();
+  const snapshot = await store.save({
+    accountId: result.user.id_str,
+    handle: result.user.screen_name,
+    takenAt: result.fetchedAt,
+    followingIds: result.list.users.map((user) => user.id_str),
+    isComplete: result.list.isComplete,
+    trigger,
+  });
+  console.log(`Saved ${trigger} snapshot ${snapshot.id} of @${snapshot.handle} (${snapshot.followingIds.length} followings) to the ${store.name} snapshot store.`);
+  return { user: result.user, snapshot, history: await store.list(snapshot.accountId) };
+}
+
+export function toSnapshotSummary(snapshot: FollowingSnapshot, previous: FollowingSnapshot | null): SnapshotSummary {
+  const diff = previous ? diffIds(previous.followingIds, snapshot.followingIds) : null;
+  return {
+    id: snapshot.id,
+    takenAt: new Date(snapshot.takenAt).toISOString(),
+    count: snapshot.followingIds.length,
+    isComplete: snapshot.isComplete,
+    trigger: snapshot.trigger,
+    changes: diff ? { added: diff.added.length, removed: diff.removed.length } : null,
+  };
+}
+
+/** Newest-first summaries, each compared with the snapshot before it. */
+export function summarizeHistory(snapshots: FollowingSnapshot[]): SnapshotSummary[] {
+  return snapshots.map((snapshot, index) => toSnapshotSummary(snapshot, snapshots[index + 1] ?? null));
+}
+
+/** Attaches stored profiles to ids; accounts missing from the graph keep a null profile. */
+async function toDiffEntries(ids: string[]): Promise<SnapshotDiffEntry[]> {
+  const store = await getFollowGraphStore();
+  const accounts = store ? await store.getAccounts(ids) : [];
+  const byId = new Map(accounts.map((account) => [account.id_str, account]));
+  return ids.map((id) => {
+    const account = byId.get(id);
+    return { id_str: id, profile: account ? toProfile(account) : null };
+  });
+}
+
+/**
+ * Diff between two snapshots from `history` (one account's snapshots, newest first).
+ * Passing them in the other order simply swaps added and removed.
+ */
+export async function buildSnapshotDiff(history: FollowingSnapshot[], from: FollowingSnapshot, to: FollowingSnapshot): Promise<SnapshotDiff> {
+  const previousOf = (snapshot: FollowingSnapshot) => history[history.findIndex((s) => s.id === snapshot.id) + 1] ?? null;
+  const diff = diffIds(from.followingIds, to.followingIds);
+  const [added, removed] = await Promise.all([toDiffEntries(diff.added), toDiffEntries(diff.removed)]);
+  return {
+    from: toSnapshotSummary(from, previousOf(from)),
+    to: toSnapshotSummary(to, previousOf(to)),
+    added,
+    removed,
+    isComplete: from.isComplete && to.isComplete,
+  };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Minimum age of an account's latest snapshot before a scheduled run takes another. */
+export function scheduledSnapshotIntervalMs(): number {
+  const hours = Number(process.env.SNAPSHOT_INTERVAL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * HOUR_MS;
+}
+
+export interface ScheduledSnapshotResult {
+  accountId: string;
+  handle: string;
+  ok: boolean;
+  snapshotId?: string;
+  changes?: SnapshotSummary['changes'];
+  error?: string;
+}
+
+/**
+ * Re-snapshots every tracked account whose latest snapshot is older than the interval,
+ * one at a time to stay gentle on the upstream. One account failing does not stop the run.
+ */
+export async function runScheduledSnapshots(provider: FollowGraphProvider, now = Date.now()): Promise<ScheduledSnapshotResult[]> {
+  const store = await getSnapshotStore();
+  const due = (await store.listTrackedAccounts()).filter((account) => now - account.latestTakenAt >= scheduledSnapshotIntervalMs());
+  console.log(`Scheduled snapshot run: ${due.length} account(s) due.`);
+
+  const results: ScheduledSnapshotResult[] = [];
+  for (const account of due) {
+    try {
+      const { snapshot, history } = await takeFollowingSnapshot(provider, { kind: 'id', id: account.accountId }, 'scheduled');
+      results.push({ accountId: account.accountId, handle: snapshot.handle, ok: true, snapshotId: snapshot.id, changes: toSnapshotSummary(snapshot, history[1] ?? null).changes });
+    } catch (error) {
+      console.warn(`Scheduled snapshot of @${account.handle} failed:`, (error as Error)?.message);
+      results.push({ accountId: account.accountId, handle: account.handle, ok: false, error: (error as Error)?.message ?? String(error) });
+    }
+  }
+  return results;
+}
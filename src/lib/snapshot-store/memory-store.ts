@@ -0,0 +1,28 @@
+import type { FollowingSnapshot, SnapshotStore, TrackedAccount } from './types';
+
+/** Process-local snapshots for development; lost on restart. */
+export class MemorySnapshotStore implements SnapshotStore {
+  readonly name = 'memory';
+  private readonly snapshots = new Map<string, FollowingSnapshot[]>();
+
+  async save(snapshot: Omit<FollowingSnapshot, 'id'>): Promise<FollowingSnapshot> {
+    const saved: FollowingSnapshot = { ...snapshot, id: String(snapshot.takenAt) };
+    const existing = (this.snapshots.get(snapshot.accountId) ?? []).filter((s) => s.id !== saved.id);
+    this.snapshots.set(snapshot.accountId, [saved, ...existing].sort((a, b) => b.takenAt - a.takenAt));
+    return saved;
+  }
+
+  async get(accountId: string, snapshotId: string): Promise<FollowingSnapshot | null> {
+    return this.snapshots.get(accountId)?.find((snapshot) => snapshot.id === snapshotId) ?? null;
+  }
+
+  async list(accountId: string): Promise<FollowingSnapshot[]> {
+    return [...(this.snapshots.get(accountId) ?? [])];
+  }
+
+  async listTrackedAccounts(): Promise<TrackedAccount[]> {
+    return [...this.snapshots.values()]
+      .filter((snapshots) => snapshots.length > 0)
+      .map(([latest]) => ({ accountId: latest.accountId, handle: latest.handle, latestTakenAt: latest.takenAt }));
+  }
+}
@@ -0,0 +1,33 @@
+import type { SnapshotTrigger } from '@/lib/snapshots';
+
+export type { SnapshotTrigger };
+
+/** An account's followings at one point in time, by stable id_str (handles can change). */
+export interface FollowingSnapshot {
+  /** Unique per account and sortable: the snapshot's fetch time in epoch milliseconds. */
+  id: string;
+  accountId: string;
+  /** Handle at snapshot time, for display only. */
+  handle: string;
+  takenAt: number;
+  followingIds: string[];
+  /** False when the list hit the page or user limit; removals against it are unreliable. */
+  isComplete: boolean;
+  trigger: SnapshotTrigger;
+}
+
+export interface TrackedAccount {
+  accountId: string;
+  handle: string;
+  latestTakenAt: number;
+}
+
+export interface SnapshotStore {
+  readonly name: string;
+  save(snapshot: Omit<FollowingSnapshot, 'id'>): Promise<FollowingSnapshot>;
+  get(accountId: string, snapshotId: string): Promise<FollowingSnapshot | null>;
+  /** Newest first. */
+  list(accountId: string): Promise<FollowingSnapshot[]>;
+  /** Every account with at least one snapshot. */
+  listTrackedAccounts(): Promise<TrackedAccount[]>;
+}
@@ -0,0 +1,44 @@
+// Shared by the snapshot routes and the client: keep this file free of server-only imports.
+import type { XProfile } from '@/lib/socialdata';
+
+export type SnapshotTrigger = 'manual' | 'scheduled';
+
+export interface SnapshotSummary {
+  id: string;
+  takenAt: string;
+  count: number;
+  isComplete: boolean;
+  trigger: SnapshotTrigger;
+  /** Change against the previous snapshot; null for the first one. */
+  changes: { added: number; removed: number } | null;
+}
+
+/** `profile` is null when the account is not in the stored graph. */
+export interface SnapshotDiffEntry {
+  id_str: string;
+  profile: XProfile | null;
+}
+
+export interface SnapshotDiff {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  added: SnapshotDiffEntry[];
+  removed: SnapshotDiffEntry[];
+  /** False when either snapshot was truncated, so some removals may be spurious. */
+  isComplete: boolean;
+}
+
+export interface SnapshotHistoryResponse {
+  account: XProfile;
+  /** Newest first. */
+  snapshots: SnapshotSummary[];
+}
+
+export interface TakeSnapshotResponse {
+  account: XProfile;
+  snapshot: SnapshotSummary;
+  /** Against the previous snapshot; null when this is the first. */
+  diff: SnapshotDiff | null;
+}
+
+export type SnapshotDiffResponse = SnapshotDiff & { account: XProfile };
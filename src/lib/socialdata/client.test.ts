@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runWithRequestContext } from '@/lib/request-context';
+import { getDailySeries } from '@/lib/usage-store';
+import { fetchFromExternalApi, type RetryOptions } from './client';
+
+const options: RetryOptions = { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 10, timeoutMs: 50 };
+
+/** A response whose headers arrive at once but whose body never finishes, until `signal` aborts it. */
+function stalledResponse(signal: AbortSignal): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('{"users":'));
+      signal.addEventListener('abort', () => controller.error(new DOMException('The operation was aborted.', 'AbortError')));
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': 'application/json' } });
+}
+
+describe('fetchFromExternalApi', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the parsed JSON of a successful response', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ id_str: '1' })));
+    await expect(fetchFromExternalApi('https://api.example.test/twitter/user/a', 'key', options))
+      .resolves.toEqual({ ok: true, status: 200, json: { id_str: '1' } });
+  });
+
+  it('times out when the body stalls after the headers arrived', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => stalledResponse(init.signal!)));
+    const result = await fetchFromExternalApi('https://api.example.test/twitter/user/a', 'key', options);
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(504);
+  });
+});
+
+describe('fetchFromExternalApi retries', () => {
+  const retrying: RetryOptions = { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 5_000, timeoutMs: 1_000 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('retries a transient failure after backing off', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+      .mockResolvedValueOnce(Response.json({ id_str: '1' }));
+    vi.stubGlobal('fetch', fetch);
+
+    const result = fetchFromExternalApi('https://api.example.test/twitter/user/a', 'key', retrying);
+    await vi.advanceTimersByTimeAsync(retrying.baseDelayMs);
+    await expect(result).resolves.toEqual({ ok: true, status: 200, json: { id_str: '1' } });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits at least as long as Retry-After asks', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'retry-after': '2' } }))
+      .mockResolvedValueOnce(Response.json({ id_str: '1' }));
+    vi.stubGlobal('fetch', fetch);
+
+    const result = fetchFromExternalApi('https://api.example.test/twitter/user/a', 'key', retrying);
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toMatchObject({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns a 429 at once when Retry-After is longer than the largest wait', async () => {
+    const fetch = vi.fn(async () => new Response('slow down', { status: 429, headers: { 'retry-after': '60' } }));
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(fetchFromExternalApi('https://api.example.test/twitter/user/a', 'key', retrying))
+      .resolves.toMatchObject({ ok: false, status: 429, retryAfterSeconds: 60 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('meters every attempt, including ones that fail on the network', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    }));
+    const context = { uid: 'retry-metered', email: null, workspaceId: 'retry-metered-ws', plan: 'free' as const, requestId: 'r1' };
+
+    const result = runWithRequestContext(context, () => fetchFromExternalApi('https://api.example.test/twitter/user/a', 'key', retrying));
+    const settled = expect(result).rejects.toThrow('fetch failed');
+    await vi.advanceTimersByTimeAsync(retrying.maxDelayMs * retrying.maxRetries);
+    await settled;
+
+    const [today] = await getDailySeries({ kind: 'user', id: 'retry-metered' }, 1);
+    expect(today.byResource.user).toBe(retrying.maxRetries + 1);
+  });
+});
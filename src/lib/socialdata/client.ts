@@ -0,0 +1,316 @@
+import type { ZodType } from 'zod';
+import { formatAccountRef, type AccountRef } from '@/lib/account-input';
+import { assertWithinQuota, recordUpstreamCall } from '@/lib/usage-store';
+import { SocialDataApiError, SocialDataParseError, SocialDataRateLimitError } from './errors';
+import {
+  socialDataFollowListPageSchema,
+  socialDataUserSchema,
+  type SocialDataFollowListPage,
+  type SocialDataUser,
+} from './schemas';
+import type { FollowList, FollowListChunk, FollowListKind, PaginationLimits } from './types';
+
+export const SOCIALDATA_BASE_URL = 'https://api.socialdata.tools';
+
+const FOLLOW_LIST_PATHS: Record<FollowListKind, string> = {
+  followings: '/twitter/friends/list',
+  followers: '/twitter/followers/list',
+};
+
+export interface ExternalApiResult {
+  ok: boolean;
+  status: number;
+  json: any;
+  /** Seconds the upstream asked us to wait, from `Retry-After` or the rate-limit reset header. */
+  retryAfterSeconds?: number;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Upper bound for any single wait; a longer `Retry-After` is surfaced to the caller instead. */
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  timeoutMs: 15_000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  // Epoch seconds at which the current rate-limit window resets.
+  const reset = Number(headers.get('x-ratelimit-reset') ?? headers.get('ratelimit-reset'));
+  if (Number.isFinite(reset) && reset > 0) {
+    return reset > 1e9 ? Math.max(0, Math.ceil(reset - Date.now() / 1000)) : Math.ceil(reset);
+  }
+  return undefined;
+}
+
+function backoffDelayMs(attempt: number, options: RetryOptions): number {
+  // Full jitter: a random delay in [0, base * 2^attempt], capped.
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * GETs `url` with bounded retries. Transient failures (429, 5xx, timeouts, network errors)
+ * are retried with exponential backoff; a 429 whose `Retry-After` exceeds `maxDelayMs` is
+ * returned immediately so the caller can tell the user when to try again.
+ *
+ * Every attempt is metered against the calling user as it is sent, since one that times out
+ * or fails on the network may still have been billed upstream. A user over quota gets a
+ * QuotaExceededError before any credits are spent.
+ */
+export async function fetchFromExternalApi(
+  url: string,
+  apiKey: string,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<ExternalApiResult> {
+  await assertWithinQuota();
+  for (let attempt = 0; ; attempt++) {
+    console.log(`Calling external API: ${url}${attempt > 0 ? ` (retry ${attempt}/${options.maxRetries})` : ''}`);
+    const canRetry = attempt < options.maxRetries;
+
+    await recordUpstreamCall(url);
+    let result: ExternalApiResult;
+    try {
+      result = await fetchOnce(url, apiKey, options.timeoutMs);
+    } catch (error: any) {
+      const timedOut = error?.name === 'AbortError';
+      if (!canRetry) {
+        if (timedOut) {
+          return { ok: false, status: 504, json: { error: 'Gateway Timeout: Upstream API did not respond in time.', details: { message: `No response from the external API within ${options.timeoutMs}ms after ${attempt + 1} attempt(s).` } } };
+        }
+        throw error;
+      }
+      console.warn(`External API ${timedOut ? 'timed out' : `request failed (${error?.message})`} at ${url}; retrying.`);
+      await sleep(backoffDelayMs(attempt, options));
+      continue;
+    }
+
+    if (result.ok || !RETRYABLE_STATUSES.has(result.status) || !canRetry) {
+      return result;
+    }
+
+    let delayMs = backoffDelayMs(attempt, options);
+    if (result.retryAfterSeconds !== undefined) {
+      if (result.retryAfterSeconds * 1000 > options.maxDelayMs) {
+        console.warn(`External API asked us to wait ${result.retryAfterSeconds}s at ${url}; not retrying.`);
+        return result;
+      }
+      delayMs = Math.max(delayMs, result.retryAfterSeconds * 1000);
+    }
+    console.warn(`External API returned ${result.status} at ${url}; retrying in ${delayMs}ms.`);
+    await sleep(delayMs);
+  }
+}
+
+async function fetchOnce(url: string, apiKey: string, timeoutMs: number): Promise<ExternalApiResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let response: Response;
+  let responseBodyText: string;
+  try {
+    response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Accept': 'application/json',
+      },
+      cache: 'no-store', // Ensure fresh data
+      signal: controller.signal,
+    });
+    // The body is read under the same timeout: a stalled stream after the headers must not hang the request.
+    responseBodyText = await response.text();
+  } finally {
+    clearTimeout(timer);
+  }
+
+  let parsedData: any = null;
+
+  try {
+    if (responseBodyText) {
+      parsedData = JSON.parse(responseBodyText);
+    }
+  } catch {
+    console.warn(`Failed to parse JSON from ${url}, status: ${response.status}. Body preview: ${responseBodyText.substring(0, 200)}`);
+  }
+
+  if (!response.ok) {
+    let externalErrorMessage = response.statusText;
+
+    if (parsedData) {
+      const potentialErrorMessages = [
+        parsedData.message,
+        parsedData.error?.message, // if error is an object
+        parsedData.error,         // if error is a string
+        parsedData.error_message,
+        Array.isArray(parsedData.errors) && parsedData.errors.length > 0 && parsedData.errors[0].message,
+        parsedData.title,
+        parsedData.detail,
+      ];
+      for (const msg of potentialErrorMessages) {
+        if (typeof msg === 'string' && msg) {
+          externalErrorMessage = msg;
+          break;
+        }
+      }
+    } else if (responseBodyText && responseBodyText.length < 150) { // Use body if short and no JSON
+        externalErrorMessage = responseBodyText;
+    }
+    
+    console.error(`External API error: ${response.status} at ${url}. Message: "${externalErrorMessage}"`, parsedData ? {details: parsedData} : {bodyPreview: responseBodyText.substring(0,200)});
+    
+    if (response.status === 400) console.warn("External API returned 400 Bad Request. Check request parameters.");
+    if (response.status === 401 || response.status === 403) console.warn("External API returned 401/403 Unauthorized/Forbidden. Verify API key and permissions.");
+    if (response.status === 404) console.warn("External API returned 404 Not Found. The requested resource might not exist.");
+
+    return { ok: false, status: response.status, json: { error: externalErrorMessage, details: parsedData }, retryAfterSeconds: parseRetryAfter(response.headers) };
+  }
+
+  if (!parsedData && response.ok && response.headers.get('content-type')?.includes('application/json')) {
+      console.error(`External API success response (2xx) from ${url} was expected to be JSON but was not or was empty. Body: ${responseBodyText.substring(0, 500)}`);
+      return { 
+        ok: false, 
+        status: 502, 
+        json: { 
+          error: 'Bad Gateway: Upstream API sent an invalid success response.', 
+          details: { message: "The external API returned a success status, but its response body was not valid JSON or was empty.", bodyPreview: responseBodyText.substring(0, 500) }
+        } 
+      };
+  }
+  
+  return { ok: true, status: response.status, json: parsedData };
+}
+
+async function requestParsed<T>(url: string, apiKey: string, schema: ZodType<T>, resource: string): Promise<T> {
+  const response = await fetchFromExternalApi(url, apiKey);
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new SocialDataRateLimitError(response.json?.error || 'Rate limited by SocialData.', response.retryAfterSeconds, response.json?.details);
+    }
+    throw new SocialDataApiError(response.json?.error || `Failed to fetch ${resource}.`, response.status, response.json?.details);
+  }
+
+  const result = schema.safeParse(response.json);
+  if (!result.success) {
+    console.error(`SocialData ${resource} response from ${url} failed validation:`, result.error.issues.slice(0, 5));
+    throw new SocialDataParseError(resource, result.error, response.json);
+  }
+  return result.data;
+}
+
+// SocialData signals the end of the chain with a missing, null or zero cursor.
+function normalizeCursor(cursor: unknown): string | null {
+  if (cursor === undefined || cursor === null) return null;
+  const value = String(cursor);
+  return value === '' || value === '0' ? null : value;
+}
+
+/**
+ * SocialData takes a screen name or a numeric id in the same path segment, so an all-digit
+ * handle and an id look alike to it. The answer is checked against the kind of `account`
+ * asked for, and a mismatch is reported as not found rather than returning someone else.
+ */
+export async function lookupUser(account: AccountRef, apiKey: string): Promise<SocialDataUser> {
+  const profile = account.kind === 'handle' ? account.handle : account.id;
+  const url = `${SOCIALDATA_BASE_URL}/twitter/user/${encodeURIComponent(profile)}`;
+  const user = await requestParsed(url, apiKey, socialDataUserSchema, 'user lookup');
+  const matches = account.kind === 'handle'
+    ? user.screen_name.toLowerCase() === account.handle.toLowerCase()
+    : user.id_str === account.id;
+  if (!matches) {
+    throw new SocialDataApiError(`SocialData resolved ${formatAccountRef(account)} to a different account (@${user.screen_name}, #${user.id_str}).`, 404);
+  }
+  return user;
+}
+
+export async function fetchFollowListPage(
+  kind: FollowListKind,
+  userId: string,
+  apiKey: string,
+  cursor?: string | null,
+): Promise<SocialDataFollowListPage> {
+  let url = `${SOCIALDATA_BASE_URL}${FOLLOW_LIST_PATHS[kind]}?user_id=${encodeURIComponent(userId)}`;
+  if (cursor) {
+    url += `&cursor=${encodeURIComponent(cursor)}`;
+  }
+  return requestParsed(url, apiKey, socialDataFollowListPageSchema, `${kind} list`);
+}
+
+/**
+ * Walks the cursor chain for `kind`, yielding each page as it arrives, until the chain
+ * ends or one of `limits` is reached. The page that crosses `maxUsers` is trimmed.
+ */
+export async function* iterateFollowList(
+  kind: FollowListKind,
+  userId: string,
+  apiKey: string,
+  limits: PaginationLimits,
+): AsyncGenerator<FollowListChunk> {
+  let cursor: string | null = null;
+  let pagesFetched = 0;
+  let usersSoFar = 0;
+
+  do {
+    const page = await fetchFollowListPage(kind, userId, apiKey, cursor);
+    pagesFetched++;
+    cursor = normalizeCursor(page.next_cursor);
+
+    // An empty page with a cursor would loop forever; treat it as the end of the chain.
+    if (page.users.length === 0) {
+      cursor = null;
+    }
+
+    const room = limits.maxUsers - usersSoFar;
+    const truncated = page.users.length > room;
+    const users = truncated ? page.users.slice(0, room) : page.users;
+    usersSoFar += users.length;
+    yield { users, nextCursor: cursor, truncated };
+  } while (cursor && pagesFetched < limits.maxPages && usersSoFar < limits.maxUsers);
+}
+
+/** Drains a chunk stream into a FollowList. */
+export async function collectFollowList(chunks: AsyncIterable<FollowListChunk>): Promise<FollowList> {
+  const users: SocialDataUser[] = [];
+  let pagesFetched = 0;
+  let last: FollowListChunk | null = null;
+
+  for await (const chunk of chunks) {
+    users.push(...chunk.users);
+    pagesFetched++;
+    last = chunk;
+  }
+
+  return {
+    users,
+    pagesFetched,
+    isComplete: !last || (last.nextCursor === null && !last.truncated),
+    nextCursor: last?.nextCursor ?? null,
+  };
+}
+
+/** Walks the cursor chain for `kind` until it ends or one of `limits` is reached. */
+export async function fetchFollowList(
+  kind: FollowListKind,
+  userId: string,
+  apiKey: string,
+  limits: PaginationLimits,
+): Promise<FollowList> {
+  return collectFollowList(iterateFollowList(kind, userId, apiKey, limits));
+}
@@ -0,0 +1,40 @@
+import type { ZodError } from 'zod';
+
+/** The upstream API answered with a non-2xx status (or an unusable 2xx body). */
+export class SocialDataApiError extends Error {
+  readonly status: number;
+  readonly details: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = 'SocialDataApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/** The upstream API answered 2xx, but the body does not match our schema. */
+export class SocialDataParseError extends Error {
+  readonly resource: string;
+  readonly issues: ZodError['issues'];
+  readonly receivedDataPreview: string;
+
+  constructor(resource: string, zodError: ZodError, received: unknown) {
+    super(`Unexpected ${resource} response shape from SocialData.`);
+    this.name = 'SocialDataParseError';
+    this.resource = resource;
+    this.issues = zodError.issues;
+    this.receivedDataPreview = (JSON.stringify(received, null, 2) ?? '').substring(0, 200);
+  }
+}
+
+/** The upstream API kept answering 429 after our retries were exhausted. */
+export class SocialDataRateLimitError extends SocialDataApiError {
+  readonly retryAfterSeconds: number | undefined;
+
+  constructor(message: string, retryAfterSeconds?: number, details?: unknown) {
+    super(message, 429, details);
+    this.name = 'SocialDataRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
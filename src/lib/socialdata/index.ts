@@ -0,0 +1,21 @@
+export {
+  DEFAULT_RETRY_OPTIONS,
+  SOCIALDATA_BASE_URL,
+  collectFollowList,
+  fetchFromExternalApi,
+  fetchFollowList,
+  fetchFollowListPage,
+  iterateFollowList,
+  lookupUser,
+  type ExternalApiResult,
+  type RetryOptions,
+} from './client';
+export { toProfile } from './normalize';
+export { SocialDataApiError, SocialDataParseError, SocialDataRateLimitError } from './errors';
+export {
+  socialDataFollowListPageSchema,
+  socialDataUserSchema,
+  type SocialDataFollowListPage,
+  type SocialDataUser,
+} from './schemas';
+export type { FollowList, FollowListChunk, FollowListKind, PaginationLimits, XProfile } from './types';
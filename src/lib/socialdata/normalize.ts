@@ -0,0 +1,20 @@
+import type { SocialDataUser } from './schemas';
+import type { XProfile } from './types';
+
+export function toProfile(user: SocialDataUser): XProfile {
+  return {
+    id_str: user.id_str,
+    name: user.name || user.screen_name,
+    handle: user.screen_name,
+    bio: user.description ?? '',
+    // The default `_normal` variant is 48x48; `_bigger` (73x73) looks sharper in the UI.
+    avatarUrl: user.profile_image_url_https?.replace('_normal.', '_bigger.') ?? null,
+    followersCount: user.followers_count ?? 0,
+    followingCount: user.friends_count ?? 0,
+    verified: user.verified ?? false,
+    protected: user.protected ?? false,
+    location: user.location || null,
+    createdAt: user.created_at ?? null,
+    url: user.url ?? null,
+  };
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Only `id_str` and `screen_name` are required; everything else is optional because
+// SocialData omits or nulls fields for suspended, protected and very old accounts.
+export const socialDataUserSchema = z.object({
+  id: z.union([z.number(), z.string()]).optional(),
+  id_str: z.string().min(1),
+  name: z.string().nullish(),
+  screen_name: z.string().min(1),
+  location: z.string().nullish(),
+  url: z.string().nullish(),
+  description: z.string().nullish(),
+  protected: z.boolean().nullish(),
+  verified: z.boolean().nullish(),
+  followers_count: z.number().nullish(),
+  friends_count: z.number().nullish(),
+  listed_count: z.number().nullish(),
+  favourites_count: z.number().nullish(),
+  statuses_count: z.number().nullish(),
+  created_at: z.string().nullish(),
+  profile_banner_url: z.string().nullish(),
+  profile_image_url_https: z.string().nullish(),
+});
+
+export const socialDataFollowListPageSchema = z.object({
+  next_cursor: z.union([z.string(), z.number()]).nullish(),
+  users: z.array(socialDataUserSchema),
+});
+
+export type SocialDataUser = z.infer<typeof socialDataUserSchema>;
+export type SocialDataFollowListPage = z.infer<typeof socialDataFollowListPageSchema>;
@@ -0,0 +1,42 @@
+import type { SocialDataUser } from './schemas';
+
+export type FollowListKind = 'followings' | 'followers';
+
+export interface PaginationLimits {
+  maxPages: number;
+  maxUsers: number;
+}
+
+export interface FollowList {
+  users: SocialDataUser[];
+  pagesFetched: number;
+  /** True when the cursor chain was walked to the end without hitting a limit. */
+  isComplete: boolean;
+  /** Cursor to resume from when the walk stopped early, otherwise null. */
+  nextCursor: string | null;
+}
+
+/** One upstream page of a follow list, as yielded while walking the cursor chain. */
+export interface FollowListChunk {
+  users: SocialDataUser[];
+  /** Cursor for the next page, or null when the chain ended. */
+  nextCursor: string | null;
+  /** True when this page was trimmed to respect `maxUsers`. */
+  truncated: boolean;
+}
+
+/** Normalized, UI-friendly view of an X account. */
+export interface XProfile {
+  id_str: string;
+  name: string;
+  handle: string;
+  bio: string;
+  avatarUrl: string | null;
+  followersCount: number;
+  followingCount: number;
+  verified: boolean;
+  protected: boolean;
+  location: string | null;
+  createdAt: string | null;
+  url: string | null;
+}
@@ -0,0 +1,40 @@
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import type { DailyUsage, UpstreamResource } from '@/lib/usage';
+import type { UsageStore, UsageSubject } from './types';
+
+const USAGE = 'usageDaily';
+
+/**
+ * One document per subject and UTC day, `usageDaily/{kind}_{id}_{day}`, updated with atomic
+ * increments so concurrent instances never lose a count. `listDaily` needs the composite
+ * index in firestore.indexes.json.
+ */
+export class FirestoreUsageStore implements UsageStore {
+  readonly name = 'firestore';
+
+  constructor(private readonly db: Firestore) {}
+
+  async increment(subject: UsageSubject, day: string, resource: UpstreamResource, amount: number): Promise<void> {
+    await this.db.collection(USAGE).doc(`${subject.kind}_${subject.id}_${day}`).set({
+      kind: subject.kind,
+      subjectId: subject.id,
+      day,
+      calls: FieldValue.increment(amount),
+      byResource: { [resource]: FieldValue.increment(amount) },
+    }, { merge: true });
+  }
+
+  async listDaily(subject: UsageSubject, fromDay: string, toDay: string): Promise<DailyUsage[]> {
+    const snapshot = await this.db.collection(USAGE)
+      .where('kind', '==', subject.kind)
+      .where('subjectId', '==', subject.id)
+      .where('day', '>=', fromDay)
+      .where('day', '<=', toDay)
+      .orderBy('day')
+      .get();
+    return snapshot.docs.map((d) => {
+      const { day, calls, byResource } = d.data() as DailyUsage;
+      return { day, calls, byResource: byResource ?? {} };
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runWithRequestContext, type RequestContext } from '@/lib/request-context';
+import { DEFAULT_PLAN_QUOTAS, DEFAULT_WORKSPACE_QUOTAS } from '@/lib/usage';
+import { assertWithinQuota, getDailySeries, getUsageStore, meterModelCall, QuotaExceededError, utcDay } from './index';
+
+const context = (uid: string, workspaceId: string): RequestContext => ({ uid, email: null, workspaceId, plan: 'free', requestId: uid });
+
+describe('assertWithinQuota', () => {
+  it('passes while the user and workspace have calls left', async () => {
+    await expect(runWithRequestContext(context('quota-fresh', 'quota-fresh-ws'), assertWithinQuota)).resolves.toBeUndefined();
+  });
+
+  it('stops a user over their own quota', async () => {
+    const store = await getUsageStore();
+    await store.increment({ kind: 'user', id: 'quota-user' }, utcDay(new Date()), 'user', DEFAULT_PLAN_QUOTAS.free.daily!);
+
+    const error = await runWithRequestContext(context('quota-user', 'quota-user-ws'), assertWithinQuota).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).quota).toMatchObject({ scope: 'user', period: 'daily' });
+  });
+
+  it('stops every member once the workspace quota is used up', async () => {
+    const store = await getUsageStore();
+    await store.increment({ kind: 'workspace', id: 'quota-shared-ws' }, utcDay(new Date()), 'user', DEFAULT_WORKSPACE_QUOTAS.free.daily!);
+
+    const error = await runWithRequestContext(context('quota-member', 'quota-shared-ws'), assertWithinQuota).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).quota).toMatchObject({ scope: 'workspace', period: 'daily' });
+  });
+
+  it('is a no-op outside a request', async () => {
+    await expect(assertWithinQuota()).resolves.toBeUndefined();
+  });
+});
+
+describe('meterModelCall', () => {
+  it('charges a generation whether or not the call succeeds', async () => {
+    const caller = context('model-caller', 'model-caller-ws');
+    await expect(runWithRequestContext(caller, () => meterModelCall(async () => 'summary'))).resolves.toBe('summary');
+    await expect(runWithRequestContext(caller, () => meterModelCall(() => Promise.reject(new Error('blocked'))))).rejects.toThrow('blocked');
+
+    const [today] = await getDailySeries({ kind: 'user', id: 'model-caller' }, 1);
+    expect(today.byResource.generations).toBe(2);
+  });
+
+  it('does not call the model once the caller is over quota', async () => {
+    const store = await getUsageStore();
+    await store.increment({ kind: 'user', id: 'model-over' }, utcDay(new Date()), 'generations', DEFAULT_PLAN_QUOTAS.free.daily!);
+    const call = vi.fn(async () => 'summary');
+
+    await expect(runWithRequestContext(context('model-over', 'model-over-ws'), () => meterModelCall(call))).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(call).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { processSingleton } from '@/lib/process-singleton';
+import { getRequestContext } from '@/lib/request-context';
+import {
+  DEFAULT_PLAN_QUOTAS,
+  DEFAULT_WORKSPACE_QUOTAS,
+  PLAN_TIERS,
+  type DailyUsage,
+  type PlanTier,
+  type QuotaLimits,
+  type QuotaStatus,
+  type UpstreamResource,
+} from '@/lib/usage';
+import { MemoryUsageStore } from './memory-store';
+import type { UsageStore, UsageSubject } from './types';
+
+export { MemoryUsageStore } from './memory-store';
+export type { UsageStore, UsageSubject } from './types';
+
+/** Thrown before an upstream call once the caller has used up a quota. */
+export class QuotaExceededError extends Error {
+  constructor(readonly plan: PlanTier, readonly quota: QuotaStatus) {
+    super(`The ${quota.period} ${quota.scope === 'workspace' ? 'workspace ' : ''}quota of ${quota.limit} upstream calls for the ${plan} plan has been used.`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** Selected with USAGE_STORE=memory|firestore (default: memory). */
+export function getUsageStore(): Promise<UsageStore> {
+  return processSingleton('usageStore', async (): Promise<UsageStore> => {
+    if (process.env.USAGE_STORE === 'firestore') {
+      // Imported lazily so the memory store never pulls in the Firestore SDK.
+      const [{ FirestoreUsageStore }, { getAdminFirestore }] = await Promise.all([
+        import('./firestore-store'),
+        import('@/lib/firebase-admin'),
+      ]);
+      return new FirestoreUsageStore(getAdminFirestore());
+    }
+    return new MemoryUsageStore();
+  });
+}
+
+const quotaOverridesSchema = z.record(
+  z.enum(PLAN_TIERS),
+  z.object({ daily: z.number().int().positive().nullable(), monthly: z.number().int().positive().nullable() }).partial(),
+);
+
+const QUOTA_SOURCES: Record<UsageSubject['kind'], { defaults: Record<PlanTier, QuotaLimits>; envVar: string }> = {
+  user: { defaults: DEFAULT_PLAN_QUOTAS, envVar: 'USAGE_QUOTAS' },
+  workspace: { defaults: DEFAULT_WORKSPACE_QUOTAS, envVar: 'USAGE_WORKSPACE_QUOTAS' },
+};
+
+/**
+ * DEFAULT_PLAN_QUOTAS, overridden per plan by USAGE_QUOTAS, e.g. {"free":{"daily":50}}; or for
+ * workspaces DEFAULT_WORKSPACE_QUOTAS, overridden the same way by USAGE_WORKSPACE_QUOTAS.
+ */
+export function getPlanQuotas(plan: PlanTier, scope: UsageSubject['kind'] = 'user'): QuotaLimits {
+  const { defaults, envVar } = QUOTA_SOURCES[scope];
+  const raw = process.env[envVar];
+  if (!raw) return defaults[plan];
+  try {
+    return { ...defaults[plan], ...quotaOverridesSchema.parse(JSON.parse(raw))[plan] };
+  } catch (error) {
+    console.warn(`Ignoring invalid ${envVar}:`, (error as Error)?.message);
+    return defaults[plan];
+  }
+}
+
+export function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** `subject`'s current daily and monthly consumption against the plan's limits for it. */
+export async function getQuotaStatuses(subject: UsageSubject, plan: PlanTier, now = new Date()): Promise<QuotaStatus[]> {
+  const today = utcDay(now);
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const days = await (await getUsageStore()).listDaily(subject, monthStart, today);
+  const limits = getPlanQuotas(plan, subject.kind);
+
+  return [
+    {
+      scope: subject.kind,
+      period: 'daily',
+      used: days.find((usage) => usage.day === today)?.calls ?? 0,
+      limit: limits.daily,
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString(),
+    },
+    {
+      scope: subject.kind,
+      period: 'monthly',
+      used: days.reduce((sum, usage) => sum + usage.calls, 0),
+      limit: limits.monthly,
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString(),
+    },
+  ];
+}
+
+/**
+ * Throws QuotaExceededError when the current request's user, or their workspace, has no
+ * calls left. A no-op outside a request (scripts, tests). Concurrent calls can overshoot a
+ * quota by a few calls.
+ */
+export async function assertWithinQuota(): Promise<void> {
+  const context = getRequestContext();
+  if (!context) return;
+  const statuses = await Promise.all([
+    getQuotaStatuses({ kind: 'user', id: context.uid }, context.plan),
+    getQuotaStatuses({ kind: 'workspace', id: context.workspaceId }, context.plan),
+  ]);
+  const exceeded = statuses.flat().find((quota) => quota.limit !== null && quota.used >= quota.limit);
+  if (exceeded) {
+    const subject = exceeded.scope === 'workspace' ? `workspace ${context.workspaceId} of uid ${context.uid}` : `uid ${context.uid}`;
+    console.warn(`${subject} exceeded its ${exceeded.period} quota (${exceeded.used}/${exceeded.limit}).`);
+    throw new QuotaExceededError(context.plan, exceeded);
+  }
+}
+
+export function upstreamResourceOf(url: string): UpstreamResource {
+  const { pathname } = new URL(url);
+  if (pathname.startsWith('/twitter/user/')) return 'user';
+  if (pathname.startsWith('/twitter/friends/')) return 'followings';
+  if (pathname.startsWith('/twitter/followers/')) return 'followers';
+  return 'other';
+}
+
+/** Charges `amount` calls of `resource` to the current user and workspace. Failures are logged only. */
+export async function recordUsage(resource: UpstreamResource, amount: number): Promise<void> {
+  const context = getRequestContext();
+  if (!context || amount <= 0) return;
+  const day = utcDay(new Date());
+  try {
+    const store = await getUsageStore();
+    await Promise.all([
+      store.increment({ kind: 'user', id: context.uid }, day, resource, amount),
+      store.increment({ kind: 'workspace', id: context.workspaceId }, day, resource, amount),
+    ]);
+  } catch (error) {
+    console.warn(`Failed to record ${resource} usage for uid ${context.uid}:`, error);
+  }
+}
+
+/** Charges one SocialData call to the current user and workspace. */
+export function recordUpstreamCall(url: string): Promise<void> {
+  return recordUsage(upstreamResourceOf(url), 1);
+}
+
+/**
+ * Runs one AI flow for the current request: refused with QuotaExceededError before the model
+ * is called when the caller is over quota, and charged as a generation even when it fails,
+ * since the model call may have been billed by then.
+ */
+export async function meterModelCall<T>(call: () => Promise<T>): Promise<T> {
+  await assertWithinQuota();
+  try {
+    return await call();
+  } finally {
+    await recordUsage('generations', 1);
+  }
+}
+
+/** The last `days` UTC days of `subject`'s usage, oldest first, with idle days as zeros. */
+export async function getDailySeries(subject: UsageSubject, days: number, now = new Date()): Promise<DailyUsage[]> {
+  const dayKeys = Array.from({ length: days }, (_, index) =>
+    utcDay(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1 - index)))));
+  const recorded = await (await getUsageStore()).listDaily(subject, dayKeys[0], dayKeys[dayKeys.length - 1]);
+  const byDay = new Map(recorded.map((usage) => [usage.day, usage]));
+  return dayKeys.map((day) => byDay.get(day) ?? { day, calls: 0, byResource: {} });
+}
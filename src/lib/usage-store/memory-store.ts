@@ -0,0 +1,28 @@
+import type { DailyUsage, UpstreamResource } from '@/lib/usage';
+import type { UsageStore, UsageSubject } from './types';
+
+/** Process-local usage counters for development; lost on restart. */
+export class MemoryUsageStore implements UsageStore {
+  readonly name = 'memory';
+  /** `${kind}:${id}` -> day -> usage */
+  private readonly counters = new Map<string, Map<string, DailyUsage>>();
+
+  async increment(subject: UsageSubject, day: string, resource: UpstreamResource, amount: number): Promise<void> {
+    const key = `${subject.kind}:${subject.id}`;
+    if (!this.counters.has(key)) this.counters.set(key, new Map());
+    const days = this.counters.get(key)!;
+    const usage = days.get(day) ?? { day, calls: 0, byResource: {} };
+    days.set(day, {
+      day,
+      calls: usage.calls + amount,
+      byResource: { ...usage.byResource, [resource]: (usage.byResource[resource] ?? 0) + amount },
+    });
+  }
+
+  async listDaily(subject: UsageSubject, fromDay: string, toDay: string): Promise<DailyUsage[]> {
+    const days = this.counters.get(`${subject.kind}:${subject.id}`);
+    return [...(days?.values() ?? [])]
+      .filter((usage) => usage.day >= fromDay && usage.day <= toDay)
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+}
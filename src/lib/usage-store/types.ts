@@ -0,0 +1,14 @@
+import type { DailyUsage, UpstreamResource } from '@/lib/usage';
+
+/** Usage is counted both for the calling user and for the workspace it belongs to. */
+export interface UsageSubject {
+  kind: 'user' | 'workspace';
+  id: string;
+}
+
+export interface UsageStore {
+  readonly name: string;
+  increment(subject: UsageSubject, day: string, resource: UpstreamResource, amount: number): Promise<void>;
+  /** Days with any usage between `fromDay` and `toDay` inclusive, oldest first. */
+  listDaily(subject: UsageSubject, fromDay: string, toDay: string): Promise<DailyUsage[]>;
+}
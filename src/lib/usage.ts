@@ -0,0 +1,63 @@
+// Shared by the usage route and the client: keep this file free of server-only imports.
+
+/** `internal` is for scheduler jobs: metered, never limited. */
+export const PLAN_TIERS = ['free', 'pro', 'team', 'internal'] as const;
+export type PlanTier = (typeof PLAN_TIERS)[number];
+
+/** Upstream calls allowed per UTC day and calendar month; null means unlimited. */
+export interface QuotaLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+/** Per-user limits of each plan. */
+export const DEFAULT_PLAN_QUOTAS: Record<PlanTier, QuotaLimits> = {
+  free: { daily: 200, monthly: 2000 },
+  pro: { daily: 2000, monthly: 40000 },
+  team: { daily: 10000, monthly: 200000 },
+  internal: { daily: null, monthly: null },
+};
+
+/**
+ * Limits shared by everyone in a workspace, by the plan of the calling user. A user without
+ * a workspace is their own, so on the single-user plans these match the per-user limits.
+ */
+export const DEFAULT_WORKSPACE_QUOTAS: Record<PlanTier, QuotaLimits> = {
+  free: { daily: 200, monthly: 2000 },
+  pro: { daily: 2000, monthly: 40000 },
+  team: { daily: 50000, monthly: 1000000 },
+  internal: { daily: null, monthly: null },
+};
+
+/** Whose calls a quota counts: the calling user's, or everyone's in their workspace. */
+export type QuotaScope = 'user' | 'workspace';
+
+/**
+ * SocialData endpoints, plus `embeddings` (one per bio or search embedded for semantic search)
+ * and `generations` (one per AI flow run, e.g. an interests summary).
+ */
+export const UPSTREAM_RESOURCES = ['user', 'followings', 'followers', 'other', 'embeddings', 'generations'] as const;
+export type UpstreamResource = (typeof UPSTREAM_RESOURCES)[number];
+
+export interface DailyUsage {
+  /** UTC date, YYYY-MM-DD. */
+  day: string;
+  calls: number;
+  byResource: Partial<Record<UpstreamResource, number>>;
+}
+
+export interface QuotaStatus {
+  scope: QuotaScope;
+  period: 'daily' | 'monthly';
+  used: number;
+  limit: number | null;
+  resetsAt: string;
+}
+
+export const MAX_USAGE_DAYS = 90;
+
+export interface UsageResponse {
+  plan: PlanTier;
+  user: { id: string; quotas: QuotaStatus[]; daily: DailyUsage[] };
+  workspace: { id: string; quotas: QuotaStatus[]; daily: DailyUsage[] };
+}
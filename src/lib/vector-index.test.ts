@@ -0,0 +1,72 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { hashText, LocalVectorIndex, normalize } from './vector-index';
+
+describe('normalize', () => {
+  it('scales to unit length and leaves zero vectors alone', () => {
+    expect(normalize([3, 4])).toEqual([0.6, 0.8]);
+    expect(normalize([0, 0])).toEqual([0, 0]);
+  });
+});
+
+describe('LocalVectorIndex', () => {
+  let dir: string | null = null;
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('ranks the given ids by cosine similarity, best first', () => {
+    const index = new LocalVectorIndex('test');
+    index.upsert([
+      { id: 'a', vector: [1, 0], textHash: 'x' },
+      { id: 'b', vector: [1, 1], textHash: 'x' },
+      { id: 'c', vector: [0, 5], textHash: 'x' },
+    ]);
+    expect(index.search([2, 0], ['a', 'b', 'c', 'missing'], 2).map(({ id }) => id)).toEqual(['a', 'b']);
+    expect(index.search([0, 1], ['a', 'b'], 5).map(({ id }) => id)).toEqual(['b', 'a']);
+    expect(index.search([1, 0], ['b'], 5)[0].score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('saves to its file and loads it back, ignoring files from another embedder', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vector-index-'));
+    const filePath = join(dir, 'nested', 'index.json');
+    const saved = new LocalVectorIndex('test', filePath);
+    saved.upsert([{ id: 'a', vector: [1, 2], textHash: hashText('bio') }]);
+    await saved.save();
+    expect(JSON.parse(await readFile(filePath, 'utf8')).entries).toHaveLength(1);
+
+    const loaded = new LocalVectorIndex('test', filePath);
+    await loaded.load();
+    expect(loaded.get('a')?.textHash).toBe(hashText('bio'));
+
+    const foreign = new LocalVectorIndex('other', filePath);
+    await foreign.load();
+    expect(foreign.size).toBe(0);
+  });
+
+  it('runs overlapping saves one at a time and leaves no temp files', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vector-index-'));
+    const filePath = join(dir, 'index.json');
+    const index = new LocalVectorIndex('test', filePath);
+    index.upsert([{ id: 'a', vector: [1, 0], textHash: 'x' }]);
+    const first = index.save();
+    index.upsert([{ id: 'b', vector: [0, 1], textHash: 'x' }]);
+    // A second process saving to the same path at the same time.
+    const other = new LocalVectorIndex('test', filePath);
+    other.upsert([{ id: 'c', vector: [1, 1], textHash: 'x' }]);
+    await Promise.all([first, index.save(), other.save()]);
+
+    expect(await readdir(dir)).toEqual(['index.json']);
+    const { entries } = JSON.parse(await readFile(filePath, 'utf8'));
+    expect([['a', 'b'], ['c']]).toContainEqual(entries.map((entry: { id: string }) => entry.id));
+  });
+
+  it('starts empty when its file does not exist', async () => {
+    const index = new LocalVectorIndex('test', join(tmpdir(), 'does-not-exist', 'index.json'));
+    await index.load();
+    expect(index.size).toBe(0);
+  });
+});
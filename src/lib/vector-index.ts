@@ -0,0 +1,119 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export interface VectorEntry {
+  id: string;
+  /** Unit length, so a dot product is the cosine similarity. */
+  vector: number[];
+  /** Hash of the embedded text, so an entry is re-embedded when the text changes. */
+  textHash: string;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+}
+
+interface IndexFile {
+  version: 1;
+  embedder: string;
+  entries: VectorEntry[];
+}
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.hypot(...vector);
+  return length === 0 ? vector : vector.map((value) => value / length);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Brute-force nearest-neighbour index over the vectors of one embedder. Held in memory and,
+ * with a `filePath`, saved as JSON so restarts do not re-embed everything. A linear scan is
+ * fine at the size of one user's network; swap in a real vector store past that.
+ */
+export class LocalVectorIndex {
+  private readonly entries = new Map<string, VectorEntry>();
+  private loaded: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(readonly embedder: string, private readonly filePath?: string) {}
+
+  /** Reads the saved index once; a missing, unreadable or foreign file starts it empty. */
+  load(): Promise<void> {
+    this.loaded ??= (async () => {
+      if (!this.filePath) return;
+      try {
+        const file = JSON.parse(await readFile(this.filePath, 'utf8')) as IndexFile;
+        if (file.version !== 1 || file.embedder !== this.embedder) {
+          console.warn(`Ignoring vector index at ${this.filePath}: it was built by ${file.embedder}, not ${this.embedder}.`);
+          return;
+        }
+        for (const entry of file.entries) this.entries.set(entry.id, entry);
+        console.log(`Loaded ${this.entries.size} vectors from ${this.filePath}.`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn(`Failed to read vector index at ${this.filePath}:`, error);
+        }
+      }
+    })();
+    return this.loaded;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(id: string): VectorEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  upsert(entries: VectorEntry[]): void {
+    for (const entry of entries) this.entries.set(entry.id, { ...entry, vector: normalize(entry.vector) });
+  }
+
+  /** The `limit` entries among `ids` most similar to `vector`, best first. */
+  search(vector: number[], ids: Iterable<string>, limit: number): VectorMatch[] {
+    const query = normalize(vector);
+    const matches: VectorMatch[] = [];
+    for (const id of ids) {
+      const entry = this.entries.get(id);
+      if (entry) matches.push({ id, score: dot(query, entry.vector) });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Writes the index to its file, if it has one. Saves run one at a time, each writing the
+   * entries as they are when it starts. Failures are logged: the index is a cache.
+   */
+  save(): Promise<void> {
+    this.saving = this.saving.then(() => this.writeFile());
+    return this.saving;
+  }
+
+  private async writeFile(): Promise<void> {
+    if (!this.filePath) return;
+    const file: IndexFile = { version: 1, embedder: this.embedder, entries: [...this.entries.values()] };
+    // Written aside and renamed so a crash mid-write cannot leave a truncated index. The temp
+    // name is unique so that processes sharing the path never rename each other's half-written file.
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(file));
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      console.warn(`Failed to save vector index to ${this.filePath}:`, error);
+      await rm(tempPath, { force: true }).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getAdminFirestore } from '@/lib/firebase-admin';
+import type { WatchAlert, WatchlistEntry } from '@/lib/watchlist';
+import { FirestoreWatchlistStore } from './firestore-store';
+
+// Runs against the Firestore emulator only: `npm run test:emulator`.
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+// Owners are unique per run, so the tests need no cleanup and never see each other's documents.
+const runId = Date.now().toString();
+const alice = `alice_${runId}`;
+const bob = `bob_${runId}`;
+
+const entry = (accountId: string): WatchlistEntry => ({
+  accountId, handle: `user${accountId}`, role: 'watch', addedAt: '2024-01-01T00:00:00.000Z', lastSnapshotId: null, lastCheckedAt: null,
+});
+
+const alert = (id: string, createdAt: string): WatchAlert => ({
+  id, type: 'new_follow', createdAt, actorId: '1', actorHandle: 'user1', subjectId: '2', subject: null, snapshotId: '1', read: false,
+});
+
+describe.skipIf(!emulatorHost)('FirestoreWatchlistStore', () => {
+  const store = new FirestoreWatchlistStore(getAdminFirestore());
+
+  it('keeps each user to their own watchlist', async () => {
+    await store.upsertEntry(alice, entry('1'));
+    await store.upsertEntry(bob, entry('2'));
+
+    expect(await store.listEntries(alice)).toEqual([entry('1')]);
+    expect(await store.removeEntry(bob, '1')).toBe(false);
+    expect(await store.removeEntry(alice, '1')).toBe(true);
+    expect(await store.listEntries(alice)).toEqual([]);
+  });
+
+  it('marks only the caller\'s existing alerts read and ignores unknown ids', async () => {
+    await store.addAlerts(alice, [alert('a1', '2024-01-01T00:00:00.000Z'), alert('a2', '2024-01-02T00:00:00.000Z')]);
+    await store.addAlerts(bob, [alert('a1', '2024-01-01T00:00:00.000Z')]);
+
+    await store.markRead(bob, ['a1', 'unknown']);
+    expect(await store.countUnread(alice)).toBe(2);
+    expect(await store.countUnread(bob)).toBe(0);
+    expect((await store.listAlerts(alice, { limit: 10, unreadOnly: true })).map((a) => a.id)).toEqual(['a2', 'a1']);
+
+    await store.markRead(alice);
+    expect(await store.listAlerts(alice, { limit: 10, unreadOnly: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import type { DocumentSnapshot, Firestore, WriteBatch } from 'firebase-admin/firestore';
+import type { WatchAlert, WatchlistEntry } from '@/lib/watchlist';
+import type { OwnedWatchlistEntry, WatchlistStore } from './types';
+
+const ENTRIES = 'watchlist';
+const ALERTS = 'watchAlerts';
+// Firestore caps a batch at 500 writes.
+const BATCH_LIMIT = 500;
+
+type Owned<T> = T & { ownerUid: string };
+
+function withoutOwner<T>(snapshot: DocumentSnapshot): T {
+  const data = { ...snapshot.data() };
+  delete data.ownerUid;
+  return data as T;
+}
+
+/**
+ * Entries live in `watchlist/{ownerUid}_{accountId}` and alerts in
+ * `watchAlerts/{ownerUid}_{alertId}`, each with an `ownerUid` field that every query
+ * filters on. The alert feed queries need the composite indexes in firestore.indexes.json.
+ */
+export class FirestoreWatchlistStore implements WatchlistStore {
+  readonly name = 'firestore';
+
+  constructor(private readonly db: Firestore) {}
+
+  private entryRef(ownerUid: string, accountId: string) {
+    return this.db.collection(ENTRIES).doc(`${ownerUid}_${accountId}`);
+  }
+
+  private alertRef(ownerUid: string, alertId: string) {
+    return this.db.collection(ALERTS).doc(`${ownerUid}_${alertId}`);
+  }
+
+  private alertsOf(ownerUid: string) {
+    return this.db.collection(ALERTS).where('ownerUid', '==', ownerUid);
+  }
+
+  async listEntries(ownerUid: string): Promise<WatchlistEntry[]> {
+    const snapshot = await this.db.collection(ENTRIES).where('ownerUid', '==', ownerUid).get();
+    return snapshot.docs.map((d) => withoutOwner<WatchlistEntry>(d));
+  }
+
+  async listAllEntries(): Promise<OwnedWatchlistEntry[]> {
+    const snapshot = await this.db.collection(ENTRIES).get();
+    return snapshot.docs.map((d) => ({ ownerUid: d.get('ownerUid') as string, entry: withoutOwner<WatchlistEntry>(d) }));
+  }
+
+  async upsertEntry(ownerUid: string, entry: WatchlistEntry): Promise<void> {
+    await this.entryRef(ownerUid, entry.accountId).set({ ...entry, ownerUid } satisfies Owned<WatchlistEntry>);
+  }
+
+  async removeEntry(ownerUid: string, accountId: string): Promise<boolean> {
+    const ref = this.entryRef(ownerUid, accountId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists || snapshot.get('ownerUid') !== ownerUid) return false;
+    await ref.delete();
+    return true;
+  }
+
+  private async writeInBatches<T>(items: T[], apply: (batch: WriteBatch, item: T) => void) {
+    for (let i = 0; i < items.length; i += BATCH_LIMIT) {
+      const batch = this.db.batch();
+      items.slice(i, i + BATCH_LIMIT).forEach((item) => apply(batch, item));
+      await batch.commit();
+    }
+  }
+
+  async addAlerts(ownerUid: string, alerts: WatchAlert[]): Promise<void> {
+    await this.writeInBatches(alerts, (batch, alert) => batch.set(this.alertRef(ownerUid, alert.id), { ...alert, ownerUid } satisfies Owned<WatchAlert>));
+  }
+
+  async listAlerts(ownerUid: string, { limit, unreadOnly }: { limit: number; unreadOnly: boolean }): Promise<WatchAlert[]> {
+    const alerts = unreadOnly ? this.alertsOf(ownerUid).where('read', '==', false) : this.alertsOf(ownerUid);
+    const snapshot = await alerts.orderBy('createdAt', 'desc').limit(limit).get();
+    return snapshot.docs.map((d) => withoutOwner<WatchAlert>(d));
+  }
+
+  async countUnread(ownerUid: string): Promise<number> {
+    const snapshot = await this.alertsOf(ownerUid).where('read', '==', false).count().get();
+    return snapshot.data().count;
+  }
+
+  async markRead(ownerUid: string, ids?: string[]): Promise<void> {
+    // `update` fails the whole batch on a missing document, so only existing alerts of this
+    // owner are written.
+    const snapshots = ids
+      ? (ids.length > 0 ? await this.db.getAll(...ids.map((id) => this.alertRef(ownerUid, id))) : [])
+      : (await this.alertsOf(ownerUid).where('read', '==', false).get()).docs;
+    const targets = snapshots.filter((snapshot) => snapshot.exists && snapshot.get('ownerUid') === ownerUid);
+    await this.writeInBatches(targets, (batch, snapshot) => batch.update(snapshot.ref, { read: true }));
+  }
+}
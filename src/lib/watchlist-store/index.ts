@@ -0,0 +1,111 @@
+import type { FollowGraphProvider } from '@/lib/follow-graph';
+import { processSingleton } from '@/lib/process-singleton';
+import { buildSnapshotDiff, takeFollowingSnapshot } from '@/lib/snapshot-store';
+import type { WatchAlert, WatchlistEntry, WatchlistRefreshResponse } from '@/lib/watchlist';
+import { MemoryWatchlistStore } from './memory-store';
+import type { OwnedWatchlistEntry, WatchlistStore } from './types';
+
+export { MemoryWatchlistStore } from './memory-store';
+export type { OwnedWatchlistEntry, WatchlistStore } from './types';
+
+/** Selected with WATCHLIST_STORE=memory|firestore (default: memory). */
+export function getWatchlistStore(): Promise<WatchlistStore> {
+  return processSingleton('watchlistStore', async (): Promise<WatchlistStore> => {
+    if (process.env.WATCHLIST_STORE === 'firestore') {
+      // Imported lazily so the memory store never pulls in the Firestore SDK.
+      const [{ FirestoreWatchlistStore }, { getAdminFirestore }] = await Promise.all([
+        import('./firestore-store'),
+        import('@/lib/firebase-admin'),
+      ]);
+      return new FirestoreWatchlistStore(getAdminFirestore());
+    }
+    return new MemoryWatchlistStore();
+  });
+}
+
+type SnapshotResult = Awaited<ReturnType<typeof takeFollowingSnapshot>>;
+
+/**
+ * Turns follows added to `entry`'s followings since the entry's last refresh into alerts,
+ * given a fresh snapshot of them. The first refresh is a baseline and never alerts.
+ */
+async function refreshEntry(
+  { user, snapshot, history }: SnapshotResult,
+  entry: WatchlistEntry,
+  targetIds: Set<string>,
+): Promise<{ alerts: WatchAlert[]; entry: WatchlistEntry }> {
+  const updatedEntry: WatchlistEntry = {
+    ...entry,
+    handle: user.screen_name,
+    lastSnapshotId: snapshot.id,
+    lastCheckedAt: new Date(snapshot.takenAt).toISOString(),
+  };
+  const baseline = history.find((s) => s.id === entry.lastSnapshotId);
+  if (!baseline) {
+    console.log(`Recorded baseline snapshot for watched account @${user.screen_name}.`);
+    return { alerts: [], entry: updatedEntry };
+  }
+
+  const diff = await buildSnapshotDiff(history, baseline, snapshot);
+  const createdAt = new Date(snapshot.takenAt).toISOString();
+  const alerts = diff.added.flatMap(({ id_str, profile }): WatchAlert[] => {
+    const isTarget = targetIds.has(id_str);
+    // Network accounts are refreshed only to catch follows of targets.
+    if (!isTarget && entry.role !== 'watch') return [];
+    return [{
+      id: `${user.id_str}_${snapshot.id}_${id_str}`,
+      type: isTarget ? 'target_followed' : 'new_follow',
+      createdAt,
+      actorId: user.id_str,
+      actorHandle: user.screen_name,
+      subjectId: id_str,
+      subject: profile,
+      snapshotId: snapshot.id,
+      read: false,
+    }];
+  });
+  return { alerts, entry: updatedEntry };
+}
+
+/**
+ * Refreshes the `watch` and `network` entries of `ownerUid`'s watchlist, or of every
+ * watchlist when it is null (scheduled runs), and stores the alerts in each owner's feed.
+ * An account on several watchlists is snapshotted once per run. One account failing does
+ * not stop the run.
+ */
+export async function runWatchlistRefresh(provider: FollowGraphProvider, ownerUid: string | null): Promise<WatchlistRefreshResponse> {
+  const store = await getWatchlistStore();
+  const owned: OwnedWatchlistEntry[] = ownerUid
+    ? (await store.listEntries(ownerUid)).map((entry) => ({ ownerUid, entry }))
+    : await store.listAllEntries();
+  const targetIdsByOwner = new Map<string, Set<string>>();
+  for (const { ownerUid: owner, entry } of owned) {
+    if (entry.role !== 'target') continue;
+    if (!targetIdsByOwner.has(owner)) targetIdsByOwner.set(owner, new Set());
+    targetIdsByOwner.get(owner)!.add(entry.accountId);
+  }
+  const refreshable = owned.filter(({ entry }) => entry.role !== 'target');
+  console.log(`Refreshing ${refreshable.length} watchlist entries across ${new Set(owned.map((o) => o.ownerUid)).size} watchlist(s).`);
+
+  const snapshots = new Map<string, Promise<SnapshotResult>>();
+  const results: WatchlistRefreshResponse['results'] = [];
+  for (const { ownerUid: owner, entry } of refreshable) {
+    try {
+      if (!snapshots.has(entry.accountId)) {
+        snapshots.set(entry.accountId, takeFollowingSnapshot(provider, { kind: 'id', id: entry.accountId }, 'scheduled'));
+      }
+      const { alerts, entry: updatedEntry } = await refreshEntry(await snapshots.get(entry.accountId)!, entry, targetIdsByOwner.get(owner) ?? new Set());
+      await store.addAlerts(owner, alerts);
+      await store.upsertEntry(owner, updatedEntry);
+      results.push({ accountId: entry.accountId, handle: entry.handle, ok: true, alertCount: alerts.length });
+    } catch (error) {
+      console.warn(`Watchlist refresh of @${entry.handle} failed:`, (error as Error)?.message);
+      results.push({ accountId: entry.accountId, handle: entry.handle, ok: false, alertCount: 0, error: (error as Error)?.message ?? String(error) });
+    }
+  }
+
+  const alertCount = results.reduce((sum, result) => sum + result.alertCount, 0);
+  const failed = results.filter((result) => !result.ok).length;
+  console.log(`Watchlist refresh complete: ${results.length - failed} refreshed, ${failed} failed, ${alertCount} new alert(s).`);
+  return { results, summary: { refreshed: results.length - failed, failed, alertCount } };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { WatchAlert, WatchlistEntry } from '@/lib/watchlist';
+import { MemoryWatchlistStore } from './memory-store';
+
+const entry = (accountId: string): WatchlistEntry => ({
+  accountId, handle: `user${accountId}`, role: 'watch', addedAt: '2024-01-01T00:00:00.000Z', lastSnapshotId: null, lastCheckedAt: null,
+});
+
+const alert = (id: string, createdAt: string): WatchAlert => ({
+  id, type: 'new_follow', createdAt, actorId: '1', actorHandle: 'user1', subjectId: '2', subject: null, snapshotId: '1', read: false,
+});
+
+describe('MemoryWatchlistStore', () => {
+  it('keeps each user to their own watchlist', async () => {
+    const store = new MemoryWatchlistStore();
+    await store.upsertEntry('alice', entry('1'));
+    await store.upsertEntry('bob', entry('2'));
+
+    expect((await store.listEntries('alice')).map((e) => e.accountId)).toEqual(['1']);
+    expect(await store.removeEntry('bob', '1')).toBe(false);
+    expect(await store.listAllEntries()).toEqual([{ ownerUid: 'alice', entry: entry('1') }, { ownerUid: 'bob', entry: entry('2') }]);
+  });
+
+  it('keeps each user to their own alerts', async () => {
+    const store = new MemoryWatchlistStore();
+    await store.addAlerts('alice', [alert('a1', '2024-01-01T00:00:00.000Z'), alert('a2', '2024-01-02T00:00:00.000Z')]);
+    await store.addAlerts('bob', [alert('a1', '2024-01-01T00:00:00.000Z')]);
+
+    await store.markRead('bob', ['a1', 'unknown']);
+    expect(await store.countUnread('alice')).toBe(2);
+    expect(await store.countUnread('bob')).toBe(0);
+    expect((await store.listAlerts('alice', { limit: 10, unreadOnly: true })).map((a) => a.id)).toEqual(['a2', 'a1']);
+  });
+});
@@ -0,0 +1,50 @@
+import type { WatchAlert, WatchlistEntry } from '@/lib/watchlist';
+import type { OwnedWatchlistEntry, WatchlistStore } from './types';
+
+/** Process-local watchlists and alert feeds for development; lost on restart. */
+export class MemoryWatchlistStore implements WatchlistStore {
+  readonly name = 'memory';
+  /** ownerUid -> accountId -> entry */
+  private readonly entries = new Map<string, Map<string, WatchlistEntry>>();
+  /** ownerUid -> alerts, newest first */
+  private readonly alerts = new Map<string, WatchAlert[]>();
+
+  private entriesOf(ownerUid: string): Map<string, WatchlistEntry> {
+    if (!this.entries.has(ownerUid)) this.entries.set(ownerUid, new Map());
+    return this.entries.get(ownerUid)!;
+  }
+
+  async listEntries(ownerUid: string): Promise<WatchlistEntry[]> {
+    return [...this.entriesOf(ownerUid).values()];
+  }
+
+  async listAllEntries(): Promise<OwnedWatchlistEntry[]> {
+    return [...this.entries].flatMap(([ownerUid, entries]) => [...entries.values()].map((entry) => ({ ownerUid, entry })));
+  }
+
+  async upsertEntry(ownerUid: string, entry: WatchlistEntry): Promise<void> {
+    this.entriesOf(ownerUid).set(entry.accountId, entry);
+  }
+
+  async removeEntry(ownerUid: string, accountId: string): Promise<boolean> {
+    return this.entriesOf(ownerUid).delete(accountId);
+  }
+
+  async addAlerts(ownerUid: string, alerts: WatchAlert[]): Promise<void> {
+    this.alerts.set(ownerUid, [...alerts, ...(this.alerts.get(ownerUid) ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+  }
+
+  async listAlerts(ownerUid: string, { limit, unreadOnly }: { limit: number; unreadOnly: boolean }): Promise<WatchAlert[]> {
+    return (this.alerts.get(ownerUid) ?? []).filter((alert) => !unreadOnly || !alert.read).slice(0, limit);
+  }
+
+  async countUnread(ownerUid: string): Promise<number> {
+    return (this.alerts.get(ownerUid) ?? []).filter((alert) => !alert.read).length;
+  }
+
+  async markRead(ownerUid: string, ids?: string[]): Promise<void> {
+    const selected = ids ? new Set(ids) : null;
+    const alerts = this.alerts.get(ownerUid) ?? [];
+    this.alerts.set(ownerUid, alerts.map((alert) => (!selected || selected.has(alert.id) ? { ...alert, read: true } : alert)));
+  }
+}
@@ -0,0 +1,28 @@
+import type { WatchAlert, WatchlistEntry } from '@/lib/watchlist';
+
+/** A watchlist entry together with the uid of the user whose watchlist it is on. */
+export interface OwnedWatchlistEntry {
+  ownerUid: string;
+  entry: WatchlistEntry;
+}
+
+/**
+ * Every user has their own watchlist and alert feed: each call is scoped to `ownerUid`, and
+ * entries or alerts of other users are neither returned nor changed.
+ */
+export interface WatchlistStore {
+  readonly name: string;
+  listEntries(ownerUid: string): Promise<WatchlistEntry[]>;
+  /** Entries of every user, for scheduled refreshes. */
+  listAllEntries(): Promise<OwnedWatchlistEntry[]>;
+  /** Adds the account, or changes its role when it is already listed. */
+  upsertEntry(ownerUid: string, entry: WatchlistEntry): Promise<void>;
+  /** Returns false when the account was not on the user's watchlist. */
+  removeEntry(ownerUid: string, accountId: string): Promise<boolean>;
+  addAlerts(ownerUid: string, alerts: WatchAlert[]): Promise<void>;
+  /** Newest first. */
+  listAlerts(ownerUid: string, options: { limit: number; unreadOnly: boolean }): Promise<WatchAlert[]>;
+  countUnread(ownerUid: string): Promise<number>;
+  /** Marks the given alerts, or every alert when `ids` is omitted, as read. Unknown ids are ignored. */
+  markRead(ownerUid: string, ids?: string[]): Promise<void>;
+}
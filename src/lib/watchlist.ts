@@ -0,0 +1,61 @@
+// Shared by the watchlist/alert routes and the client: keep this file free of server-only imports.
+import type { XProfile } from '@/lib/socialdata';
+
+/**
+ * - `watch`: alert on every new account it follows.
+ * - `network`: refreshed like `watch`, but only alerts when it follows a `target`.
+ * - `target`: never refreshed; alerts when a watched or network account starts following it.
+ */
+export const WATCH_ROLES = ['watch', 'network', 'target'] as const;
+export type WatchRole = (typeof WATCH_ROLES)[number];
+
+export const WATCH_ROLE_LABELS: Record<WatchRole, string> = {
+  watch: 'Watched account',
+  network: 'My network',
+  target: 'Target',
+};
+
+export const MAX_WATCHLIST_SIZE = 100;
+
+export interface WatchlistEntry {
+  accountId: string;
+  handle: string;
+  role: WatchRole;
+  addedAt: string;
+  /**
+   * The snapshot the last refresh compared against. Alerts diff from here rather than from
+   * the previous snapshot, so snapshots taken elsewhere cannot swallow new follows.
+   */
+  lastSnapshotId: string | null;
+  lastCheckedAt: string | null;
+}
+
+export type WatchAlertType = 'new_follow' | 'target_followed';
+
+/** `actor` started following `subject` between two snapshots of actor's followings. */
+export interface WatchAlert {
+  id: string;
+  type: WatchAlertType;
+  createdAt: string;
+  actorId: string;
+  actorHandle: string;
+  subjectId: string;
+  /** Null when the followed account is not in the stored graph. */
+  subject: XProfile | null;
+  snapshotId: string;
+  read: boolean;
+}
+
+export interface WatchlistResponse {
+  entries: WatchlistEntry[];
+}
+
+export interface AlertsResponse {
+  alerts: WatchAlert[];
+  unreadCount: number;
+}
+
+export interface WatchlistRefreshResponse {
+  results: { accountId: string; handle: string; ok: boolean; alertCount: number; error?: string }[];
+  summary: { refreshed: number; failed: number; alertCount: number };
+}